@@ -1,10 +1,17 @@
-import React, { useState, useMemo } from 'react';
+import React, { useEffect, useState, useMemo } from 'react';
 import { Allotment } from 'allotment';
-import { usePomlStore } from './hooks';
-import TextInput from './components/Editor/TextInput';
+import { usePomlStore, useLinter, useParser, useProjectPersistence, useUndoShortcuts } from './hooks';
+import { ParseIndicator, TextInput } from './components/Editor';
 import { PomlPreview } from './components/Preview/PomlPreview';
 import { InspectorPanel } from './components/Inspector/InspectorPanel';
-import type { PomlSection } from './types/poml.types';
+import { SaveTemplateDialog } from './components/Templates';
+import { ProjectSwitcher } from './components/Projects';
+import { HistoryPanel } from './components/History';
+import type { BestPracticeSuggestion, Enhancement, PomlSection } from './types/poml.types';
+import type { SectionType } from './types';
+import { applySuggestionFix } from './linter';
+import { sectionExplainer } from './parser';
+import { PARSING_CONFIG, SECTION_TYPES } from './utils/constants';
 import TextAnalysisDemo from './components/TextAnalysisDemo';
 import { PomlGeneratorDemo } from './components/PomlGeneratorDemo';
 import './App.css';
@@ -42,6 +49,24 @@ const SearchIcon = () => (
   </svg>
 );
 
+const HistoryIcon = () => (
+  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+  </svg>
+);
+
+const UndoIcon = () => (
+  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3" />
+  </svg>
+);
+
+const RedoIcon = () => (
+  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 15l6-6m0 0l-6-6m6 6H9a6 6 0 000 12h3" />
+  </svg>
+);
+
 const SunIcon = () => (
   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
@@ -61,7 +86,9 @@ const ModernHeader: React.FC<{ currentMode: DemoMode; onModeChange: (mode: DemoM
   currentMode, 
   onModeChange 
 }) => {
-  const { theme, setTheme } = usePomlStore();
+  const { theme, setTheme, undoStack, redoStack, undo, redo } = usePomlStore();
+  const nextUndo = undoStack[undoStack.length - 1];
+  const nextRedo = redoStack[redoStack.length - 1];
   
   return (
     <div className="relative">
@@ -117,13 +144,35 @@ const ModernHeader: React.FC<{ currentMode: DemoMode; onModeChange: (mode: DemoM
             </button>
           </div>
 
-          {/* Theme Toggle */}
-          <button
-            onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
-            className="w-10 h-10 bg-white/10 hover:bg-white/20 backdrop-blur rounded-xl flex items-center justify-center text-white transition-all duration-200"
-          >
-            {theme === 'dark' ? <SunIcon /> : <MoonIcon />}
-          </button>
+          <div className="flex items-center space-x-2">
+            <ProjectSwitcher />
+
+            {/* Undo / Redo */}
+            <button
+              onClick={undo}
+              disabled={!nextUndo}
+              title={nextUndo ? `Undo ${nextUndo.label} (Ctrl+Z)` : 'Nothing to undo'}
+              className="w-10 h-10 bg-white/10 hover:bg-white/20 backdrop-blur rounded-xl flex items-center justify-center text-white transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <UndoIcon />
+            </button>
+            <button
+              onClick={redo}
+              disabled={!nextRedo}
+              title={nextRedo ? `Redo ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              className="w-10 h-10 bg-white/10 hover:bg-white/20 backdrop-blur rounded-xl flex items-center justify-center text-white transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <RedoIcon />
+            </button>
+
+            {/* Theme Toggle */}
+            <button
+              onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
+              className="w-10 h-10 bg-white/10 hover:bg-white/20 backdrop-blur rounded-xl flex items-center justify-center text-white transition-all duration-200"
+            >
+              {theme === 'dark' ? <SunIcon /> : <MoonIcon />}
+            </button>
+          </div>
         </div>
       </div>
     </div>
@@ -362,10 +411,38 @@ const ModernStatusBar: React.FC = () => {
 
 // Main App Component
 const App: React.FC = () => {
-  const { theme, generatedPoml, detectedSections, inputText, updateInputText } = usePomlStore();
+  const {
+    theme,
+    generatedPoml,
+    detectedSections,
+    inputText,
+    updateInputText,
+    setGeneratedPoml,
+    recordVersion,
+    updateSection,
+    reorderSections,
+    changeSectionType,
+    markSpan,
+    resizeSection,
+    unmarkSection,
+    recordFeedback,
+    learnedState,
+    transaction
+  } = usePomlStore();
   const [currentMode, setCurrentMode] = useState<DemoMode>('studio');
   const [activeTab, setActiveTab] = useState<'input' | 'analysis' | 'generator'>('input');
-  const [rightPanelTab, setRightPanelTab] = useState<'preview' | 'inspector'>('preview');
+  const [rightPanelTab, setRightPanelTab] = useState<'preview' | 'inspector' | 'history'>('preview');
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
+  const lintResult = useLinter();
+  const { analyzeText, isAnalyzing, progress } = useParser();
+  useProjectPersistence();
+  useUndoShortcuts();
+
+  // Analyze the prompt once typing pauses or the parsing settings change; a newer analysis cancels the one still running
+  useEffect(() => {
+    const timer = setTimeout(() => analyzeText(inputText || ''), PARSING_CONFIG.DEBOUNCE_DELAY);
+    return () => clearTimeout(timer);
+  }, [inputText, analyzeText]);
 
   const extractedSections = useMemo((): PomlSection[] => {
     return detectedSections.map((section, index) => ({
@@ -374,23 +451,66 @@ const App: React.FC = () => {
       content: section.content,
       startLine: index,
       endLine: index,
-      confidence: section.confidence / 100
+      confidence: section.confidence
     }));
   }, [detectedSections]);
 
   const confidenceScores = useMemo(() => ({
-    overview: 0.8,
-    objective: 0.8,
-    motivation: 0.8,
-    learning: 0.8,
+    overview: 80,
+    objective: 80,
+    motivation: 80,
+    learning: 80,
   }), []);
 
+  const handleApplySuggestion = (suggestion: BestPracticeSuggestion) => {
+    const { fix } = suggestion;
+    if (fix) {
+      transaction(fix.label, () => setGeneratedPoml(applySuggestionFix(generatedPoml, fix)));
+      recordVersion(fix.label);
+    }
+  };
+
+  const handleApplyEnhancement = (enhancedPoml: string, enhancement: Enhancement) => {
+    transaction(enhancement.label, () => setGeneratedPoml(enhancedPoml));
+    recordVersion(enhancement.label);
+  };
+
   const handleSectionUpdate = (sectionId: string, content: string) => {
-    console.log('Update section:', sectionId, content);
+    updateSection(sectionId, content);
   };
 
   const handleSectionReorder = (fromIndex: number, toIndex: number) => {
-    console.log('Reorder sections:', fromIndex, toIndex);
+    reorderSections(fromIndex, toIndex);
+  };
+
+  // A type change is a correction of the analyzer, so it also feeds the learned weights
+  const handleSectionTypeChange = (sectionId: string, type: string) => {
+    const section = detectedSections.find(candidate => candidate.id === sectionId);
+    changeSectionType(sectionId, type as SectionType);
+    if (section && section.type !== type) {
+      recordFeedback({
+        predictedType: section.type,
+        correctedType: type as SectionType,
+        patterns: section.patterns ?? [],
+        text: section.content
+      });
+    }
+  };
+
+  // Text a section gives up goes back to the analyzer
+  const handleResizeSection = (sectionId: string, startIndex: number, endIndex: number) => {
+    resizeSection(sectionId, startIndex, endIndex);
+    analyzeText(inputText);
+  };
+
+  const handleUnmarkSection = (sectionId: string) => {
+    unmarkSection(sectionId);
+    analyzeText(inputText);
+  };
+
+  const handleExplainSection = (sectionId: string) => {
+    const section = detectedSections.find(candidate => candidate.id === sectionId);
+    return section && sectionExplainer.explain(section, inputText, learnedState);
   };
 
   if (currentMode === 'textAnalysis') {
@@ -439,12 +559,19 @@ const App: React.FC = () => {
                           <h2 className="text-lg font-bold text-gray-900 dark:text-white">Input Editor</h2>
                           <p className="text-gray-500 dark:text-gray-400 text-sm">Write your prompt here</p>
                         </div>
+                        <div className="ml-auto">
+                          <ParseIndicator isProcessing={isAnalyzing} progress={progress} />
+                        </div>
                       </div>
                     </div>
                     <div className="p-6 h-full">
                       <TextInput 
                         value={inputText || ''}
                         onChange={updateInputText}
+                        sections={detectedSections}
+                        onMarkSpan={markSpan}
+                        onResizeSection={handleResizeSection}
+                        onUnmarkSection={handleUnmarkSection}
                       />
                     </div>
                   </div>
@@ -486,6 +613,19 @@ const App: React.FC = () => {
                         <span>Inspector</span>
                       </div>
                     </button>
+                    <button
+                      onClick={() => setRightPanelTab('history')}
+                      className={`flex-1 px-4 py-2 text-sm font-medium rounded-lg transition-all duration-200 ${
+                        rightPanelTab === 'history'
+                          ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white shadow-md'
+                          : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                      }`}
+                    >
+                      <div className="flex items-center justify-center space-x-2">
+                        <HistoryIcon />
+                        <span>History</span>
+                      </div>
+                    </button>
                   </div>
                 </div>
 
@@ -495,8 +635,11 @@ const App: React.FC = () => {
                     <div className="h-full">
                       <PomlPreview 
                         pomlContent={generatedPoml || ''} 
-                        isValid={true} 
-                        validationErrors={[]} 
+                        isValid={lintResult.isValid}
+                        validationErrors={[...lintResult.errors, ...lintResult.warnings]}
+                        suggestions={lintResult.suggestions}
+                        onApplySuggestion={handleApplySuggestion}
+                        onSaveAsTemplate={() => setSaveTemplateOpen(true)}
                       />
                     </div>
                   )}
@@ -508,9 +651,18 @@ const App: React.FC = () => {
                         confidenceScores={confidenceScores}
                         onSectionUpdate={handleSectionUpdate}
                         onSectionReorder={handleSectionReorder}
+                        sectionTypes={detectedSections.length > 0 ? SECTION_TYPES : undefined}
+                        onSectionTypeChange={handleSectionTypeChange}
+                        onApplyEnhancement={handleApplyEnhancement}
+                        onExplainSection={handleExplainSection}
                       />
                     </div>
                   )}
+                  {rightPanelTab === 'history' && (
+                    <div className="h-full">
+                      <HistoryPanel />
+                    </div>
+                  )}
                 </div>
               </div>
             </Allotment.Pane>
@@ -519,6 +671,10 @@ const App: React.FC = () => {
       </div>
       
       <ModernStatusBar />
+
+      {saveTemplateOpen && (
+        <SaveTemplateDialog isOpen onClose={() => setSaveTemplateOpen(false)} />
+      )}
     </div>
   );
 };
@@ -1,5 +1,4 @@
-// Parse indicator component for showing processing status
-// This component will be fully implemented in Phase 3
+// Parse indicator component for showing processing status and the progress reported by the analysis worker
 
 import React from 'react';
 
@@ -30,6 +29,11 @@ const ParseIndicator: React.FC<ParseIndicatorProps> = ({
           <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"/>
         </svg>
         Processing... {progress > 0 && `${Math.round(progress)}%`}
+        {progress > 0 && (
+          <div className="ml-2 w-16 h-1 bg-blue-100 dark:bg-blue-900 rounded">
+            <div className="h-1 bg-blue-600 dark:bg-blue-400 rounded" style={{ width: `${Math.min(progress, 100)}%` }} />
+          </div>
+        )}
       </div>
     );
   }
@@ -1,11 +1,15 @@
 /**
  * Rich Text Input Component - Phase 3 Enhanced Editor
- * Features: Large text support, auto-save, paste detection, undo/redo
+ * Features: Large text support, auto-save, paste detection, undo/redo,
+ * detected sections drawn over the text with draggable boundaries and marking of selected text
  */
 
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { Editor } from '@monaco-editor/react';
+import { Editor, type Monaco } from '@monaco-editor/react';
+import type { editor as MonacoEditor } from 'monaco-editor';
 import { usePomlStore } from '../../hooks';
+import type { DetectedSection, SectionType } from '../../types';
+import { SECTION_TYPES, SECTION_TYPE_BADGES, SECTION_TYPE_LABELS } from '../../utils/constants';
 import { debounce } from 'lodash';
 
 interface TextInputProps {
@@ -15,18 +19,80 @@ interface TextInputProps {
   isProcessing?: boolean;
   placeholder?: string;
   className?: string;
+  sections?: DetectedSection[]; // drawn over the text, offsets into `value`
+  onMarkSpan?: (type: SectionType, startIndex: number, endIndex: number) => void;
+  onResizeSection?: (sectionId: string, startIndex: number, endIndex: number) => void;
+  onUnmarkSection?: (sectionId: string) => void;
 }
 
+// A section with its offsets as the editor tracks them through edits made since the analysis
+interface TrackedSection {
+  section: DetectedSection;
+  startIndex: number;
+  endIndex: number;
+}
+
+interface SelectionBar {
+  startIndex: number;
+  endIndex: number;
+  top: number;
+  left: number;
+  markedSectionId?: string; // the marked span the selection lies in
+}
+
+interface BoundaryDrag {
+  sectionId: string;
+  fixedIndex: number; // the boundary that stays
+  index: number; // where the dragged boundary is now
+}
+
+const MARKABLE_TYPES = SECTION_TYPES.filter(type => type !== 'unknown');
+
+/**
+ * Overlay of a section: a colored background, a boundary handle at each end and a hover card
+ */
+const overlayOptions = (section: DetectedSection, monaco: Monaco): MonacoEditor.IModelDecorationOptions => {
+  const marked = section.metadata?.manual === true;
+  return {
+    className: `section-overlay section-overlay-${section.type}`,
+    inlineClassName: marked ? 'section-overlay-marked' : undefined,
+    beforeContentClassName: 'section-boundary section-boundary-start',
+    afterContentClassName: 'section-boundary section-boundary-end',
+    hoverMessage: {
+      value: `**${SECTION_TYPE_LABELS[section.type]}** · ${Math.round(section.confidence)}% confidence` +
+        (marked ? '\n\nMarked by you, kept on re-analysis' : '')
+    },
+    stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+  };
+};
+
+/**
+ * Editor range from `startIndex` to `endIndex` of the model's text
+ */
+const rangeOf = (model: MonacoEditor.ITextModel, startIndex: number, endIndex: number) => {
+  const start = model.getPositionAt(startIndex);
+  const end = model.getPositionAt(endIndex);
+  return { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column };
+};
+
 const TextInput: React.FC<TextInputProps> = ({
   value = '',
   onChange,
   onPaste,
   isProcessing = false,
   placeholder = 'Enter your text here...',
-  className = ''
+  className = '',
+  sections = [],
+  onMarkSpan,
+  onResizeSection,
+  onUnmarkSection
 }) => {
   const { theme } = usePomlStore();
-  const editorRef = useRef<any>(null);
+  const [editor, setEditor] = useState<MonacoEditor.IStandaloneCodeEditor | null>(null);
+  const [monaco, setMonaco] = useState<Monaco | null>(null);
+  const overlaysRef = useRef<MonacoEditor.IEditorDecorationsCollection | null>(null);
+  const dragRef = useRef<BoundaryDrag | null>(null);
+  const [selectionBar, setSelectionBar] = useState<SelectionBar | null>(null);
   const [lastSavedValue, setLastSavedValue] = useState(value);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [characterCount, setCharacterCount] = useState((value || '').length);
@@ -52,30 +118,27 @@ const TextInput: React.FC<TextInputProps> = ({
   }, [onChange, lastSavedValue, debouncedSave]);
 
   // Handle paste events
-  const handleEditorDidMount = useCallback((editor: any) => {
-    editorRef.current = editor;
+  const handleEditorDidMount = useCallback((editor: MonacoEditor.IStandaloneCodeEditor, monaco: Monaco) => {
+    setEditor(editor);
+    setMonaco(monaco);
 
     // Add paste detection
-    if (editor.onDidPaste) {
-      editor.onDidPaste((e: any) => {
-        const pastedText = editor.getModel()?.getValueInRange(e.range) || '';
-        if (pastedText.length > 100 && onPaste) {
-          // Substantial paste detected - trigger auto-parsing
-          setTimeout(() => onPaste(pastedText), 100);
-        }
-      });
-    }
+    editor.onDidPaste((e: MonacoEditor.IPasteEvent) => {
+      const pastedText = editor.getModel()?.getValueInRange(e.range) || '';
+      if (pastedText.length > 100 && onPaste) {
+        // Substantial paste detected - trigger auto-parsing
+        setTimeout(() => onPaste(pastedText), 100);
+      }
+    });
 
     // Add keyboard shortcuts
-    if (editor.addCommand) {
-      editor.addCommand(editor.KeyMod?.CtrlCmd | editor.KeyCode?.KeyS, () => {
-        // Force save on Ctrl/Cmd+S
-        const currentValue = editor.getValue();
-        localStorage.setItem('poml-studio-draft', currentValue);
-        setLastSavedValue(currentValue);
-        setHasUnsavedChanges(false);
-      });
-    }
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
+      // Force save on Ctrl/Cmd+S
+      const currentValue = editor.getValue();
+      localStorage.setItem('poml-studio-draft', currentValue);
+      setLastSavedValue(currentValue);
+      setHasUnsavedChanges(false);
+    });
 
     // Focus the editor
     editor.focus();
@@ -89,6 +152,145 @@ const TextInput: React.FC<TextInputProps> = ({
     }
   }, []);
 
+  // Draw the sections over the text; the editor moves them along with edits until the next analysis
+  useEffect(() => {
+    const model = editor?.getModel();
+    if (!editor || !monaco || !model) return;
+
+    const overlays = editor.createDecorationsCollection(sections.map(section => ({
+      range: rangeOf(model, section.startIndex, section.endIndex),
+      options: overlayOptions(section, monaco)
+    })));
+    overlaysRef.current = overlays;
+    return () => {
+      overlays.clear();
+      overlaysRef.current = null;
+    };
+  }, [editor, monaco, sections]);
+
+  /**
+   * The sections at their current place in the editor's text
+   */
+  const trackSections = useCallback((): TrackedSection[] => {
+    const model = editor?.getModel();
+    const ranges = overlaysRef.current?.getRanges() ?? [];
+    if (!model || ranges.length !== sections.length) {
+      return sections.map(section => ({ section, startIndex: section.startIndex, endIndex: section.endIndex }));
+    }
+    return sections.map((section, index) => ({
+      section,
+      startIndex: model.getOffsetAt(ranges[index].getStartPosition()),
+      endIndex: model.getOffsetAt(ranges[index].getEndPosition())
+    }));
+  }, [editor, sections]);
+
+  // Offer to mark selected text as a section, next to the end of the selection
+  useEffect(() => {
+    if (!editor || !onMarkSpan) return;
+
+    const updateSelectionBar = () => {
+      const model = editor.getModel();
+      const selection = editor.getSelection();
+      const position = selection && editor.getScrolledVisiblePosition(selection.getEndPosition());
+      if (!model || !selection || selection.isEmpty() || !position || dragRef.current) {
+        setSelectionBar(null);
+        return;
+      }
+
+      const startIndex = model.getOffsetAt(selection.getStartPosition());
+      const endIndex = model.getOffsetAt(selection.getEndPosition());
+      const marked = trackSections().find(tracked => tracked.section.metadata?.manual === true &&
+        tracked.startIndex <= startIndex && endIndex <= tracked.endIndex);
+      setSelectionBar({
+        startIndex,
+        endIndex,
+        top: position.top + position.height,
+        left: position.left,
+        markedSectionId: marked?.section.id
+      });
+    };
+
+    const subscriptions = [
+      editor.onDidChangeCursorSelection(updateSelectionBar),
+      editor.onDidScrollChange(updateSelectionBar)
+    ];
+    return () => subscriptions.forEach(subscription => subscription.dispose());
+  }, [editor, onMarkSpan, trackSections]);
+
+  // Drag a section's boundary handle to move that boundary
+  useEffect(() => {
+    if (!editor || !monaco || !onResizeSection) return;
+    const preview = editor.createDecorationsCollection();
+
+    const subscriptions = [
+      editor.onMouseDown(event => {
+        const model = editor.getModel();
+        const classes = event.target.element?.classList;
+        const edge = classes?.contains('section-boundary-start') ? 'start'
+          : classes?.contains('section-boundary-end') ? 'end' : null;
+        if (!model || !edge || !event.target.position) return;
+
+        // The handle belongs to the section whose boundary on that side is closest to the click
+        const offset = model.getOffsetAt(event.target.position);
+        const boundaryOf = (tracked: TrackedSection) => edge === 'start' ? tracked.startIndex : tracked.endIndex;
+        const [closest] = trackSections().sort((a, b) => Math.abs(boundaryOf(a) - offset) - Math.abs(boundaryOf(b) - offset));
+        if (!closest) return;
+
+        dragRef.current = {
+          sectionId: closest.section.id,
+          fixedIndex: edge === 'start' ? closest.endIndex : closest.startIndex,
+          index: boundaryOf(closest)
+        };
+        setSelectionBar(null);
+        event.event.preventDefault();
+      }),
+      editor.onMouseMove(event => {
+        const model = editor.getModel();
+        const drag = dragRef.current;
+        if (!model || !drag || !event.target.position) return;
+        // The button went up outside the editor
+        if ((event.event.buttons & 1) === 0) {
+          dragRef.current = null;
+          preview.clear();
+          return;
+        }
+
+        drag.index = model.getOffsetAt(event.target.position);
+        preview.set([{
+          range: rangeOf(model, Math.min(drag.fixedIndex, drag.index), Math.max(drag.fixedIndex, drag.index)),
+          options: { className: 'section-overlay-drag' }
+        }]);
+      }),
+      editor.onMouseUp(() => {
+        const drag = dragRef.current;
+        if (!drag) return;
+
+        dragRef.current = null;
+        preview.clear();
+        // Dragging also selected text, which is not meant as a selection
+        const position = editor.getPosition();
+        if (position) editor.setPosition(position);
+        onResizeSection(drag.sectionId, drag.fixedIndex, drag.index);
+      })
+    ];
+    return () => {
+      subscriptions.forEach(subscription => subscription.dispose());
+      preview.clear();
+    };
+  }, [editor, monaco, onResizeSection, trackSections]);
+
+  const handleMarkSpan = (type: SectionType) => {
+    if (!selectionBar || !onMarkSpan) return;
+    onMarkSpan(type, selectionBar.startIndex, selectionBar.endIndex);
+    const position = editor?.getPosition();
+    if (position) editor?.setPosition(position);
+  };
+
+  const handleUnmarkSection = (sectionId: string) => {
+    onUnmarkSection?.(sectionId);
+    setSelectionBar(null);
+  };
+
   // Clean up debounced function
   useEffect(() => {
     return () => {
@@ -157,6 +359,35 @@ const TextInput: React.FC<TextInputProps> = ({
         </div>
       </div>
 
+      {/* Marking of the selected text */}
+      {selectionBar && (
+        <div
+          className="absolute z-20 flex flex-wrap items-center gap-1 max-w-md p-1.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded shadow-lg text-xs"
+          style={{ top: selectionBar.top + 4, left: selectionBar.left }}
+          // Keep the editor's selection while a button is clicked
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <span className="px-1 text-gray-600 dark:text-gray-400">Mark as</span>
+          {MARKABLE_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => handleMarkSpan(type)}
+              className={`px-2 py-0.5 rounded-full font-medium hover:opacity-80 ${SECTION_TYPE_BADGES[type]}`}
+            >
+              {SECTION_TYPE_LABELS[type]}
+            </button>
+          ))}
+          {selectionBar.markedSectionId && onUnmarkSection && (
+            <button
+              onClick={() => handleUnmarkSection(selectionBar.markedSectionId!)}
+              className="px-2 py-0.5 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white underline"
+            >
+              Unmark
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Monaco Editor */}
       <Editor
         height="100%"
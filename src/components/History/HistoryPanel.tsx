@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUturnLeftIcon, ClockIcon } from '@heroicons/react/24/outline';
+import { usePomlStore } from '../../hooks';
+import type { ProjectVersion } from '../../types';
+import { diffLines, summarizeDiff } from '../../utils/diff';
+import { formatDate } from '../../utils/helpers';
+import DiffView from '../common/DiffView';
+
+type DiffField = 'generatedPoml' | 'inputText';
+
+// Selection value standing for the live workspace rather than a snapshot
+const CURRENT = 'current';
+
+export const HistoryPanel: React.FC = () => {
+  const { versions, inputText, generatedPoml, detectedSections, restoreVersion, clearVersions } = usePomlStore();
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT);
+  const [field, setField] = useState<DiffField>('generatedPoml');
+
+  const newestFirst = useMemo(() => [...versions].reverse(), [versions]);
+  const effectiveBaseId = baseId ?? newestFirst[0]?.id ?? CURRENT;
+
+  const contentOf = (id: string): string => {
+    if (id === CURRENT) {
+      return field === 'generatedPoml' ? generatedPoml : inputText;
+    }
+    const version = versions.find(candidate => candidate.id === id);
+    return version ? version[field] : '';
+  };
+
+  const baseContent = contentOf(effectiveBaseId);
+  const compareContent = contentOf(compareId);
+  const diff = useMemo(() => diffLines(baseContent, compareContent), [baseContent, compareContent]);
+  const summary = summarizeDiff(diff);
+
+  const describe = (version: ProjectVersion) =>
+    `${version.label} · ${formatDate(new Date(version.createdAt))}`;
+
+  const handleRestore = (version: ProjectVersion) => {
+    if (window.confirm(`Restore "${describe(version)}"? The current workspace is kept in the history.`)) {
+      restoreVersion(version.id);
+    }
+  };
+
+  if (versions.length === 0) {
+    return (
+      <div className="p-4 text-center text-gray-500 dark:text-gray-400">
+        <p>No versions yet</p>
+        <p className="text-sm mt-2">A snapshot is saved every time POML is generated</p>
+      </div>
+    );
+  }
+
+  const versionOptions = (
+    <>
+      <option value={CURRENT}>Current workspace</option>
+      {newestFirst.map(version => (
+        <option key={version.id} value={version.id}>{describe(version)}</option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="h-full overflow-auto bg-white dark:bg-gray-900">
+      <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Version History</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {versions.length} snapshot{versions.length === 1 ? '' : 's'} · {detectedSections.length} sections in workspace
+          </p>
+        </div>
+        <button
+          onClick={() => window.confirm('Delete all snapshots?') && clearVersions()}
+          className="px-3 py-1 text-xs text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded hover:bg-red-50 dark:hover:bg-red-900/20"
+        >
+          Clear
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {newestFirst.map(version => (
+          <li key={version.id} className="flex items-center justify-between px-3 py-2">
+            <button
+              onClick={() => setBaseId(version.id)}
+              className={`flex items-center space-x-2 text-left text-sm ${
+                version.id === effectiveBaseId ? 'text-blue-600 dark:text-blue-400 font-medium' : 'text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <ClockIcon className="w-4 h-4 shrink-0" />
+              <span>{describe(version)}</span>
+            </button>
+            <button
+              onClick={() => handleRestore(version)}
+              title="Restore this version"
+              className="flex items-center space-x-1 px-2 py-1 text-xs text-gray-600 dark:text-gray-300 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <ArrowUturnLeftIcon className="w-4 h-4" />
+              <span>Restore</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="p-3 space-y-2 border-t border-gray-200 dark:border-gray-700">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            From
+            <select
+              value={effectiveBaseId}
+              onChange={(e) => setBaseId(e.target.value)}
+              className="mt-1 w-full text-xs rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            >
+              {versionOptions}
+            </select>
+          </label>
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            To
+            <select
+              value={compareId}
+              onChange={(e) => setCompareId(e.target.value)}
+              className="mt-1 w-full text-xs rounded border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            >
+              {versionOptions}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 rounded p-0.5">
+            {([['generatedPoml', 'POML'], ['inputText', 'Input text']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setField(value)}
+                className={`px-2 py-0.5 text-xs rounded ${
+                  field === value ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow' : 'text-gray-500 dark:text-gray-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            <span className="text-green-600">+{summary.added}</span>{' '}
+            <span className="text-red-600">-{summary.removed}</span> lines
+          </span>
+        </div>
+
+        {summary.added === 0 && summary.removed === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">No differences</p>
+        ) : (
+          <DiffView lines={diff} showLineNumbers />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
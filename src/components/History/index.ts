@@ -0,0 +1 @@
+export { HistoryPanel } from './HistoryPanel';
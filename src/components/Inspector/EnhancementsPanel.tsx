@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import { SparklesIcon } from '@heroicons/react/24/outline';
+import { enhancementEngine, type EnhancementPreview } from '../../generator';
+import type { Enhancement } from '../../types';
+import DiffView from '../common/DiffView';
+
+interface EnhancementsPanelProps {
+  poml: string;
+  onApply: (enhancedPoml: string, enhancement: Enhancement) => void;
+}
+
+export const EnhancementsPanel: React.FC<EnhancementsPanelProps> = ({ poml, onApply }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const enhancements = enhancementEngine.getEnhancements();
+
+  // A document the enhancement cannot process shows its error instead of breaking the panel
+  const { preview, error } = useMemo((): { preview: EnhancementPreview | null; error?: string } => {
+    if (!selectedId || !enhancementEngine.getEnhancement(selectedId)) return { preview: null };
+    try {
+      return { preview: enhancementEngine.previewEnhancement(selectedId, poml) };
+    } catch (error) {
+      return { preview: null, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }, [selectedId, poml]);
+
+  const handleApply = () => {
+    if (preview?.changed) {
+      onApply(preview.after, preview.enhancement);
+    }
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="p-3 border-b border-gray-200 dark:border-gray-700">
+      <h3 className="flex items-center text-sm font-semibold text-gray-900 dark:text-white">
+        <SparklesIcon className="w-4 h-4 mr-1" />
+        Enhancements
+      </h3>
+
+      <div className="flex flex-wrap gap-2 mt-2">
+        {enhancements.map(enhancement => (
+          <button
+            key={enhancement.id}
+            onClick={() => setSelectedId(selectedId === enhancement.id ? null : enhancement.id)}
+            title={enhancement.description}
+            className={`px-2 py-1 text-xs rounded border ${
+              selectedId === enhancement.id
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+          >
+            {enhancement.label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <p className="mt-3 text-xs text-red-600 dark:text-red-400">Cannot preview this enhancement: {error}</p>
+      )}
+
+      {preview && (
+        <div className="mt-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400">{preview.enhancement.description}</p>
+
+          {preview.changed ? (
+            <>
+              <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                <span className="text-green-600">+{preview.summary.added}</span>{' '}
+                <span className="text-red-600">-{preview.summary.removed}</span> lines
+              </div>
+              <DiffView lines={preview.diff} className="mt-1 max-h-64" />
+              <div className="flex space-x-2 mt-2">
+                <button
+                  onClick={handleApply}
+                  className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  Apply
+                </button>
+                <button
+                  onClick={() => setSelectedId(null)}
+                  className="px-3 py-1 text-xs bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-400 dark:hover:bg-gray-500"
+                >
+                  Cancel
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Already applied - nothing to change.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnhancementsPanel;
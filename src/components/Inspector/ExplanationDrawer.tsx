@@ -0,0 +1,140 @@
+import React from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import type { SectionExplanation } from '../../types';
+import { SECTION_TYPE_BADGES, SECTION_TYPE_LABELS } from '../../utils/constants';
+
+interface ExplanationDrawerProps {
+  explanation: SectionExplanation;
+  onClose: () => void;
+}
+
+const formatPoints = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const sectionHeading = 'text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2';
+
+export const ExplanationDrawer: React.FC<ExplanationDrawerProps> = ({ explanation, onClose }) => {
+  const { score } = explanation;
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-10 w-full max-w-sm overflow-auto bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-700 shadow-xl">
+      <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="flex items-center space-x-2 text-sm font-semibold text-gray-900 dark:text-white">
+          <span>Why</span>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SECTION_TYPE_BADGES[explanation.type]}`}>
+            {SECTION_TYPE_LABELS[explanation.type]}
+          </span>
+          <span>at {explanation.confidence}%?</span>
+        </h3>
+        <button
+          onClick={onClose}
+          title="Close"
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-3 space-y-4 text-xs text-gray-700 dark:text-gray-300">
+        <p className="text-sm">{explanation.summary}</p>
+
+        {/* Matched patterns */}
+        {explanation.evidence.length > 0 && (
+          <div>
+            <h4 className={sectionHeading}>Evidence</h4>
+            <ul className="space-y-2">
+              {explanation.evidence.map((evidence, index) => (
+                <li key={index} className="p-2 rounded bg-gray-50 dark:bg-gray-800">
+                  <div className="flex justify-between">
+                    <span className="font-mono text-gray-900 dark:text-white">{evidence.pattern}</span>
+                    {evidence.score !== undefined && <span className="ml-2 text-gray-500">{evidence.score}</span>}
+                  </div>
+                  {evidence.matchedText && (
+                    <div className="mt-1 italic">"{evidence.matchedText}"</div>
+                  )}
+                  <div className="mt-1 text-gray-500">{evidence.source}</div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* How the analysis arrived at the confidence */}
+        {score && (
+          <div>
+            <h4 className={sectionHeading}>Score</h4>
+            <table className="w-full">
+              <tbody>
+                <tr>
+                  <td>Best pattern match</td>
+                  <td className="text-right font-mono">{score.matchScore}</td>
+                </tr>
+                {score.adjustments.map(adjustment => (
+                  <tr key={adjustment.name}>
+                    <td>{adjustment.name}</td>
+                    <td className={`text-right font-mono ${adjustment.value < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatPoints(adjustment.value)}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="border-t border-gray-200 dark:border-gray-700 font-semibold">
+                  <td>Confidence</td>
+                  <td className="text-right font-mono">{score.confidence}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Confidence scorer factors */}
+        <div>
+          <h4 className={sectionHeading}>Confidence factors</h4>
+          <ul className="space-y-1">
+            {explanation.factors.map(factor => (
+              <li key={factor.name}>
+                <div className="flex justify-between">
+                  <span className="font-medium">{factor.name}</span>
+                  <span className={`font-mono ${factor.multiplier < 1 ? 'text-red-600' : factor.multiplier > 1 ? 'text-green-600' : ''}`}>
+                    ×{factor.multiplier.toFixed(2)}
+                  </span>
+                </div>
+                <div className="text-gray-500">{factor.detail}</div>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-gray-500">
+            With every factor applied the scorer estimates {explanation.scorerConfidence}%.
+          </p>
+        </div>
+
+        {/* Competing types */}
+        <div>
+          <h4 className={sectionHeading}>Competing types</h4>
+          {explanation.competitors.length === 0 ? (
+            <p className="text-gray-500">No other type matched this block.</p>
+          ) : (
+            <ul className="space-y-2">
+              {explanation.competitors.map(candidate => (
+                <li key={candidate.type}>
+                  <div className="flex justify-between mb-1">
+                    <span className={`px-2 py-0.5 rounded-full font-medium ${SECTION_TYPE_BADGES[candidate.type]}`}>
+                      {SECTION_TYPE_LABELS[candidate.type]}
+                    </span>
+                    <span className="font-mono">{candidate.confidence}</span>
+                  </div>
+                  <div
+                    className="h-1 rounded bg-gray-200 dark:bg-gray-700"
+                    title={candidate.adjustments.map(adjustment => `${adjustment.name} ${formatPoints(adjustment.value)}`).join('\n')}
+                  >
+                    <div className="h-1 rounded bg-gray-500" style={{ width: `${candidate.confidence}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExplanationDrawer;
@@ -1,6 +1,19 @@
 import React, { useState, useMemo } from 'react';
-import { ChevronDownIcon, ChevronRightIcon, PencilIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
-import type { PomlSection } from '../../types/poml.types';
+import { ChevronDownIcon, ChevronRightIcon, PencilIcon, ExclamationTriangleIcon, QuestionMarkCircleIcon } from '@heroicons/react/24/outline';
+import type { SectionExplanation, SectionType } from '../../types/parser.types';
+import type { Enhancement, PomlSection } from '../../types/poml.types';
+import { pomlReader, PomlFormatter } from '../../generator';
+import { POML_NODE_TAGS, SECTION_TYPE_BADGES, SECTION_TYPE_LABELS } from '../../utils/constants';
+import { EnhancementsPanel } from './EnhancementsPanel';
+import { ExplanationDrawer } from './ExplanationDrawer';
+
+const formatter = new PomlFormatter();
+
+const isSectionType = (type: string): type is SectionType => type in SECTION_TYPE_BADGES;
+
+// Sections read back from POML carry tag names, which get the unclassified badge and keep their tag as label
+const getTypeBadge = (type: string) => SECTION_TYPE_BADGES[isSectionType(type) ? type : 'unknown'];
+const getTypeLabel = (type: string) => isSectionType(type) ? SECTION_TYPE_LABELS[type] : type;
 
 interface InspectorPanelProps {
   poml: string;
@@ -8,6 +21,10 @@ interface InspectorPanelProps {
   confidenceScores: Record<string, number>;
   onSectionUpdate?: (sectionId: string, content: string) => void;
   onSectionReorder?: (fromIndex: number, toIndex: number) => void;
+  sectionTypes?: readonly string[];
+  onSectionTypeChange?: (sectionId: string, type: string) => void;
+  onApplyEnhancement?: (enhancedPoml: string, enhancement: Enhancement) => void;
+  onExplainSection?: (sectionId: string) => SectionExplanation | undefined; // undefined for sections the analyzer did not detect
 }
 
 interface ExpandedSections {
@@ -19,42 +36,45 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
   sections,
   confidenceScores,
   onSectionUpdate,
-  onSectionReorder
+  onSectionReorder,
+  sectionTypes,
+  onSectionTypeChange,
+  onApplyEnhancement,
+  onExplainSection
 }) => {
   const [expandedSections, setExpandedSections] = useState<ExpandedSections>({});
   const [editingSections, setEditingSections] = useState<Record<string, boolean>>({});
   const [editingContent, setEditingContent] = useState<Record<string, string>>({});
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [explainedSectionId, setExplainedSectionId] = useState<string | null>(null);
 
   // Parse sections from POML
   const parsedSections = useMemo(() => {
     if (sections.length > 0) return sections;
     
-    // Fallback: extract sections from POML string
-    const lines = poml.split('\n');
-    const extractedSections: PomlSection[] = [];
-    
-    lines.forEach((line, index) => {
-      const trimmed = line.trim();
-      if (trimmed.startsWith('<') && !trimmed.startsWith('</') && !trimmed.startsWith('<?')) {
-        const tagMatch = trimmed.match(/<(\w+)[^>]*>/);
-        if (tagMatch) {
-          const sectionType = tagMatch[1];
-          extractedSections.push({
-            id: `section-${index}`,
-            type: sectionType as any,
-            content: trimmed,
-            startLine: index,
-            endLine: index,
-            confidence: confidenceScores[sectionType] || 0.8
-          });
-        }
-      }
-    });
-    
-    return extractedSections;
+    // Fallback: read sections from the POML document itself
+    const { components } = pomlReader.parse(poml, { preserveComments: false });
+    const root = components.length === 1 && Array.isArray(components[0].content)
+      ? components[0].content
+      : components;
+
+    return root
+      .filter(component => component.tag !== POML_NODE_TAGS.TEXT)
+      .map((component, index): PomlSection => ({
+        id: `section-${index}`,
+        type: component.tag as PomlSection['type'],
+        content: typeof component.content === 'string'
+          ? component.content
+          : formatter.format(component.content),
+        startLine: component.span ? component.span.start.line - 1 : undefined,
+        endLine: component.span ? component.span.end.line - 1 : undefined,
+        confidence: confidenceScores[component.tag] || 80
+      }));
   }, [poml, sections, confidenceScores]);
 
+  // Recomputed on every render so the drawer follows re-analysis of the section
+  const explanation = explainedSectionId ? onExplainSection?.(explainedSectionId) : undefined;
+
   const toggleSection = (sectionId: string) => {
     setExpandedSections(prev => ({
       ...prev,
@@ -88,13 +108,13 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
   };
 
   const getConfidenceColor = (confidence: number) => {
-    if (confidence >= 0.8) return 'text-green-600 bg-green-100';
-    if (confidence >= 0.6) return 'text-yellow-600 bg-yellow-100';
+    if (confidence >= 80) return 'text-green-600 bg-green-100';
+    if (confidence >= 60) return 'text-yellow-600 bg-yellow-100';
     return 'text-red-600 bg-red-100';
   };
 
   const getConfidenceIcon = (confidence: number) => {
-    if (confidence < 0.6) {
+    if (confidence < 60) {
       return <ExclamationTriangleIcon className="w-4 h-4" />;
     }
     return null;
@@ -132,7 +152,11 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
   }
 
   return (
-    <div className="h-full overflow-auto bg-white dark:bg-gray-900">
+    <div className="relative h-full overflow-auto bg-white dark:bg-gray-900">
+      {explanation && (
+        <ExplanationDrawer explanation={explanation} onClose={() => setExplainedSectionId(null)} />
+      )}
+
       <div className="p-3 border-b border-gray-200 dark:border-gray-700">
         <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
           POML Inspector
@@ -142,11 +166,15 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
         </p>
       </div>
 
+      {onApplyEnhancement && poml.trim() && (
+        <EnhancementsPanel poml={poml} onApply={onApplyEnhancement} />
+      )}
+
       <div className="space-y-2 p-2">
         {parsedSections.map((section, index) => {
           const isExpanded = expandedSections[section.id];
           const isEditing = editingSections[section.id];
-          const confidence = section.confidence || 0.8;
+          const confidence = section.confidence || 80;
           const isDragging = draggedIndex === index;
 
           return (
@@ -176,23 +204,46 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                       )}
                     </button>
                     <div className="flex items-center space-x-2">
-                      <span className="text-sm font-medium text-gray-900 dark:text-white">
-                        {section.type}
-                      </span>
+                      {sectionTypes && onSectionTypeChange ? (
+                        <select
+                          value={section.type}
+                          onChange={(e) => onSectionTypeChange(section.id, e.target.value)}
+                          className={`text-xs font-medium py-0.5 pl-2 rounded-full border-0 ${getTypeBadge(section.type)}`}
+                        >
+                          {sectionTypes.map(type => (
+                            <option key={type} value={type}>{getTypeLabel(type)}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getTypeBadge(section.type)}`}>
+                          {getTypeLabel(section.type)}
+                        </span>
+                      )}
                       <div className={`px-2 py-1 rounded-full text-xs font-medium flex items-center space-x-1 ${getConfidenceColor(confidence)}`}>
                         {getConfidenceIcon(confidence)}
-                        <span>{Math.round(confidence * 100)}%</span>
+                        <span>{Math.round(confidence)}%</span>
                       </div>
                     </div>
                   </div>
-                  {!isEditing && (
-                    <button
-                      onClick={() => startEditing(section.id, section.content)}
-                      className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-                    >
-                      <PencilIcon className="w-4 h-4" />
-                    </button>
-                  )}
+                  <div className="flex items-center space-x-2">
+                    {onExplainSection && (
+                      <button
+                        onClick={() => setExplainedSectionId(section.id)}
+                        title="Why this type?"
+                        className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                      >
+                        <QuestionMarkCircleIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                    {!isEditing && (
+                      <button
+                        onClick={() => startEditing(section.id, section.content)}
+                        className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                      >
+                        <PencilIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
                 </div>
 
                 {/* Section Content */}
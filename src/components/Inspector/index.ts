@@ -1,2 +1,4 @@
 export { InspectorPanel } from './InspectorPanel';
 export { default } from './InspectorPanel';
+export { EnhancementsPanel } from './EnhancementsPanel';
+export { ExplanationDrawer } from './ExplanationDrawer';
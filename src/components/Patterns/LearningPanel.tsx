@@ -0,0 +1,108 @@
+import React, { useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowPathIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import { usePomlStore } from '../../hooks';
+import { feedbackLearner } from '../../parser/feedbackLearner';
+import type { SectionType } from '../../types';
+import { downloadFile, readFileAsText } from '../../utils/fileOperations';
+
+export const LearningPanel: React.FC = () => {
+  const { learnedState, setLearnedState, resetLearnedState } = usePomlStore();
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const typeMultipliers = Object.entries(learnedState.typeMultipliers) as Array<[SectionType, number]>;
+  const adjustedPatterns = Object.values(learnedState.patternWeights).filter(weight => weight !== 1).length;
+  const examples = learnedState.examples?.length ?? 0;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const state = feedbackLearner.parseLearnedState(await readFileAsText(file));
+      setLearnedState(state);
+      setMessage(`Imported learning from ${state.feedbackCount} correction${state.feedbackCount === 1 ? '' : 's'}`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Could not import learned state');
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(feedbackLearner.serializeLearnedState(learnedState), 'poml-studio-learning.json', 'application/json');
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Forget everything learned from your corrections?')) {
+      resetLearnedState();
+      setMessage('Learned state reset');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Learning</h2>
+          <p className="text-sm text-gray-600">Pattern weights, type multipliers and classifier examples learned from your corrections</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            title="Import"
+            className="p-1.5 text-gray-400 hover:text-gray-600"
+          >
+            <ArrowUpTrayIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleExport}
+            title="Export"
+            className="p-1.5 text-gray-400 hover:text-gray-600"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleReset}
+            disabled={learnedState.feedbackCount === 0}
+            title="Reset"
+            className="p-1.5 text-gray-400 hover:text-red-600 disabled:opacity-50"
+          >
+            <ArrowPathIcon className="w-4 h-4" />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {message && <p className="text-sm text-gray-600 mb-3">{message}</p>}
+
+      {learnedState.feedbackCount === 0 ? (
+        <p className="text-sm text-gray-500 italic">No corrections yet</p>
+      ) : (
+        <div className="space-y-2 text-sm text-gray-700">
+          <p>
+            {learnedState.feedbackCount} correction{learnedState.feedbackCount === 1 ? '' : 's'},
+            {' '}{adjustedPatterns} adjusted pattern{adjustedPatterns === 1 ? '' : 's'},
+            {' '}{examples} classifier example{examples === 1 ? '' : 's'}
+          </p>
+          {typeMultipliers.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {typeMultipliers.map(([type, multiplier]) => (
+                <span key={type} className="px-2 py-1 rounded bg-gray-100 text-xs text-gray-700">
+                  {type} ×{multiplier.toFixed(2)}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LearningPanel;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { usePomlStore } from '../../hooks';
+import { contentValidator } from '../../linter';
+import { DEFAULT_SETTINGS } from '../../utils/constants';
+
+export const LintRulesPanel: React.FC = () => {
+  const { settings, updateSettings } = usePomlStore();
+  const { enableLinting, lintRules } = settings;
+  const rules = contentValidator.getRules();
+
+  const handleReset = () => {
+    updateSettings({ enableLinting: DEFAULT_SETTINGS.enableLinting, lintRules: DEFAULT_SETTINGS.lintRules });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Lint Rules</h2>
+          <p className="text-sm text-gray-600">Checks run on the generated POML; syntax errors are always reported</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={enableLinting}
+              onChange={(e) => updateSettings({ enableLinting: e.target.checked })}
+            />
+            <span>Enable linting</span>
+          </label>
+          <button
+            onClick={handleReset}
+            title="Reset to defaults"
+            className="p-1.5 text-gray-400 hover:text-gray-600"
+          >
+            <ArrowPathIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {rules.map(rule => (
+          <li key={rule.name}>
+            <label className={`flex items-start space-x-3 text-sm ${enableLinting ? 'text-gray-700' : 'text-gray-400'}`}>
+              <input
+                type="checkbox"
+                className="mt-0.5"
+                disabled={!enableLinting}
+                checked={contentValidator.isRuleEnabled(rule, lintRules)}
+                onChange={(e) => updateSettings({ lintRules: { ...lintRules, [rule.name]: e.target.checked } })}
+              />
+              <span>
+                <span className="font-mono">{rule.name}</span>
+                <span className="ml-2 text-xs uppercase text-gray-500">{rule.severity}</span>
+                <span className="block text-gray-500">{rule.description}</span>
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LintRulesPanel;
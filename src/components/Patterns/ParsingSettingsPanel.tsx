@@ -0,0 +1,97 @@
+import React from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { usePomlStore } from '../../hooks';
+import type { SectionType } from '../../types';
+import { DEFAULT_SETTINGS, SECTION_TYPES, SECTION_TYPE_LABELS } from '../../utils/constants';
+
+// 'unknown' sections are never reported, so they have no threshold of their own
+const THRESHOLD_TYPES = SECTION_TYPES.filter(type => type !== 'unknown');
+
+export const ParsingSettingsPanel: React.FC = () => {
+  const { settings, updateSettings } = usePomlStore();
+  const { parsingSensitivity, minConfidence, typeThresholds } = settings;
+
+  const setTypeThreshold = (type: SectionType, value: string) => {
+    const rest = Object.fromEntries(Object.entries(typeThresholds).filter(([key]) => key !== type));
+    updateSettings({ typeThresholds: value === '' ? rest : { ...rest, [type]: Number(value) } });
+  };
+
+  const handleReset = () => {
+    updateSettings({
+      parsingSensitivity: DEFAULT_SETTINGS.parsingSensitivity,
+      minConfidence: DEFAULT_SETTINGS.minConfidence,
+      typeThresholds: DEFAULT_SETTINGS.typeThresholds
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Parsing</h2>
+          <p className="text-sm text-gray-600">How readily patterns match and how confident a section must be to be reported</p>
+        </div>
+        <button
+          onClick={handleReset}
+          title="Reset to defaults"
+          className="p-1.5 text-gray-400 hover:text-gray-600"
+        >
+          <ArrowPathIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6 mb-4">
+        <label className="block text-sm text-gray-700">
+          <span className="flex justify-between mb-1">
+            <span>Sensitivity</span>
+            <span className="font-mono">{parsingSensitivity}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={parsingSensitivity}
+            onChange={(e) => updateSettings({ parsingSensitivity: Number(e.target.value) })}
+            className="w-full"
+          />
+          <span className="text-xs text-gray-500">Higher accepts weaker pattern matches</span>
+        </label>
+        <label className="block text-sm text-gray-700">
+          <span className="flex justify-between mb-1">
+            <span>Minimum confidence</span>
+            <span className="font-mono">{minConfidence}%</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={minConfidence}
+            onChange={(e) => updateSettings({ minConfidence: Number(e.target.value) })}
+            className="w-full"
+          />
+          <span className="text-xs text-gray-500">Sections below it are not reported</span>
+        </label>
+      </div>
+
+      <h3 className="text-sm font-medium text-gray-700 mb-2">Per-type minimum confidence</h3>
+      <div className="grid grid-cols-3 gap-x-6 gap-y-2">
+        {THRESHOLD_TYPES.map(type => (
+          <label key={type} className="flex items-center justify-between text-sm text-gray-700">
+            <span>{SECTION_TYPE_LABELS[type]}</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={typeThresholds[type] ?? ''}
+              placeholder={String(minConfidence)}
+              onChange={(e) => setTypeThreshold(type, e.target.value)}
+              className="w-16 px-1 py-0.5 text-right border border-gray-300 rounded"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ParsingSettingsPanel;
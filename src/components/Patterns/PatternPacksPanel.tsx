@@ -0,0 +1,122 @@
+import React, { useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { usePomlStore } from '../../hooks';
+import { patternPackLibrary } from '../../parser/patternPacks';
+import { downloadFile, readFileAsText } from '../../utils/fileOperations';
+
+export const PatternPacksPanel: React.FC = () => {
+  const { settings, updateSettings, addPatternPack, removePatternPack, setPatternPackEnabled } = usePomlStore();
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { patternPacks, enableCustomPatterns } = settings;
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const pack = patternPackLibrary.parsePatternPack(await readFileAsText(file));
+      const replaced = patternPacks.some(existing => existing.id === pack.id);
+      addPatternPack(pack);
+      setMessage(`${replaced ? 'Updated' : 'Loaded'} "${pack.name}" with ${pack.patterns.length} pattern${pack.patterns.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Could not load pattern pack');
+    }
+  };
+
+  const handleExport = (packId: string) => {
+    const pack = patternPacks.find(candidate => candidate.id === packId);
+    if (pack) {
+      downloadFile(patternPackLibrary.serializePatternPack(pack), `${pack.id}.patterns.json`, 'application/json');
+    }
+  };
+
+  const handleRemove = (packId: string, name: string) => {
+    if (window.confirm(`Remove pattern pack "${name}"?`)) {
+      removePatternPack(packId);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Pattern Packs</h2>
+          <p className="text-sm text-gray-600">Custom detection patterns, merged with the built-in ones</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={enableCustomPatterns}
+              onChange={(e) => updateSettings({ enableCustomPatterns: e.target.checked })}
+              className="mr-2"
+            />
+            Use custom patterns
+          </label>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            <ArrowUpTrayIcon className="w-4 h-4" />
+            <span>Load Pack</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleLoad}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {message && <p className="text-sm text-gray-600 mb-3">{message}</p>}
+
+      {patternPacks.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No pattern packs loaded</p>
+      ) : (
+        <ul className={`divide-y divide-gray-200 border border-gray-200 rounded-md ${enableCustomPatterns ? '' : 'opacity-50'}`}>
+          {patternPacks.map(pack => (
+            <li key={pack.id} className="flex items-center justify-between px-4 py-2">
+              <label className="flex items-center space-x-3 min-w-0">
+                <input
+                  type="checkbox"
+                  checked={pack.enabled !== false}
+                  disabled={!enableCustomPatterns}
+                  onChange={(e) => setPatternPackEnabled(pack.id, e.target.checked)}
+                />
+                <span className="min-w-0">
+                  <span className="block text-sm font-medium text-gray-800 truncate">{pack.name}</span>
+                  <span className="block text-xs text-gray-500 truncate">
+                    {pack.patterns.length} pattern{pack.patterns.length === 1 ? '' : 's'}
+                    {pack.description && ` · ${pack.description}`}
+                  </span>
+                </span>
+              </label>
+              <div className="flex items-center space-x-1 ml-2">
+                <button
+                  onClick={() => handleExport(pack.id)}
+                  title="Export"
+                  className="p-1 text-gray-400 hover:text-gray-600"
+                >
+                  <ArrowDownTrayIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleRemove(pack.id, pack.name)}
+                  title="Remove"
+                  className="p-1 text-gray-400 hover:text-red-600"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PatternPacksPanel;
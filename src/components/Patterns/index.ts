@@ -0,0 +1,4 @@
+export { PatternPacksPanel } from './PatternPacksPanel';
+export { LearningPanel } from './LearningPanel';
+export { ParsingSettingsPanel } from './ParsingSettingsPanel';
+export { LintRulesPanel } from './LintRulesPanel';
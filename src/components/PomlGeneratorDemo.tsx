@@ -2,8 +2,12 @@
  * POML Generator Demo - Interactive component showcasing POML generation capabilities
  */
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { useParser, useGenerator, usePomlStore } from '../hooks';
+import { templateLibrary } from '../generator';
+import type { TemplateValues } from '../types';
+import { downloadFile, readFileAsText } from '../utils/fileOperations';
+import { TemplateFillForm } from './Templates';
 
 interface GeneratorDemoProps {
   className?: string;
@@ -12,6 +16,10 @@ interface GeneratorDemoProps {
 export const PomlGeneratorDemo: React.FC<GeneratorDemoProps> = ({ className = '' }) => {
   const [activeTab, setActiveTab] = useState<'generator' | 'templates'>('generator');
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
+  const [selectedCategory, setSelectedCategory] = useState<string | undefined>(undefined);
+  const [fillingTemplateId, setFillingTemplateId] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [generationOptions, setGenerationOptions] = useState({
     includeComments: false,
     includeConfidence: true,
@@ -19,12 +27,13 @@ export const PomlGeneratorDemo: React.FC<GeneratorDemoProps> = ({ className = ''
     includeMetadata: false
   });
 
-  const { detectedSections } = usePomlStore();
+  const { detectedSections, customTemplates, deleteCustomTemplate, importCustomTemplates } = usePomlStore();
   const { analyzeText } = useParser();
   const { 
     generatePoml, 
     generateFromTemplate,
     getTemplates,
+    getTemplateCategories,
     isGenerating, 
     lastResult, 
     error,
@@ -32,7 +41,10 @@ export const PomlGeneratorDemo: React.FC<GeneratorDemoProps> = ({ className = ''
     metadata
   } = useGenerator();
 
-  const templates = getTemplates();
+  const templates = getTemplates(selectedCategory);
+  const categories = getTemplateCategories();
+  const fillingTemplate = fillingTemplateId ? getTemplates().find(t => t.id === fillingTemplateId) : undefined;
+  const customTemplateIds = new Set(customTemplates.map(t => t.id));
 
   const handleGenerateFromSections = async () => {
     if (detectedSections.length === 0) {
@@ -43,11 +55,37 @@ export const PomlGeneratorDemo: React.FC<GeneratorDemoProps> = ({ className = ''
     await generatePoml(detectedSections, generationOptions);
   };
 
-  const handleGenerateFromTemplate = async (templateId: string) => {
-    const template = templates.find(t => t.id === templateId);
-    if (!template) return;
-    
-    await generateFromTemplate(template, generationOptions);
+  const handleGenerateFromTemplate = async (values: TemplateValues) => {
+    if (!fillingTemplate) return;
+
+    const result = await generateFromTemplate(fillingTemplate, values, generationOptions);
+    if (result.components.length > 0) {
+      setFillingTemplateId(null);
+      setActiveTab('generator');
+    }
+  };
+
+  const handleExportTemplates = () => {
+    const timestamp = new Date().toISOString().split('T')[0];
+    downloadFile(
+      templateLibrary.serializeTemplatePack(customTemplates),
+      `poml_templates_${timestamp}.json`,
+      'application/json'
+    );
+  };
+
+  const handleImportTemplates = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = templateLibrary.parseTemplatePack(await readFileAsText(file));
+      importCustomTemplates(imported);
+      setImportMessage(`Imported ${imported.length} template${imported.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      setImportMessage(err instanceof Error ? err.message : 'Import failed');
+    }
   };
 
   const handleSampleText = async (text: string) => {
@@ -305,53 +343,126 @@ Output format: Structured markdown with code blocks, tables, and clear hierarchy
 
         {activeTab === 'templates' && (
           <div className="space-y-6">
-            <div>
-              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
-                Predefined Templates
-              </h3>
-              <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
-                Generate POML from predefined templates for common use cases.
-              </p>
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+                  Templates
+                </h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+                  Pick a template, fill in its placeholders and generate POML. Components marked * are required.
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  Import Pack
+                </button>
+                <button
+                  onClick={handleExportTemplates}
+                  disabled={customTemplates.length === 0}
+                  className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Export My Templates
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleImportTemplates}
+                  className="hidden"
+                />
+              </div>
             </div>
 
-            <div className="grid gap-6">
-              {templates.map((template) => (
-                <div
-                  key={template.id}
-                  className="p-6 border border-gray-200 dark:border-gray-700 rounded-lg"
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <h4 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
-                        {template.name}
-                      </h4>
-                      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                        {template.description}
-                      </p>
-                      <div className="space-y-2">
-                        {template.structure.map((section, index) => (
-                          <div key={index} className="flex items-center space-x-2 text-sm">
-                            <span className="px-2 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded">
-                              {section.type}
-                            </span>
-                            <span className="text-gray-600 dark:text-gray-400 truncate">
-                              {section.content.substring(0, 100)}...
-                            </span>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
+            {importMessage && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">{importMessage}</p>
+            )}
+
+            {fillingTemplate ? (
+              <TemplateFillForm
+                key={fillingTemplate.id}
+                template={fillingTemplate}
+                isGenerating={isGenerating}
+                onGenerate={handleGenerateFromTemplate}
+                onCancel={() => setFillingTemplateId(null)}
+              />
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  {[{ id: undefined, label: 'All' }, ...categories].map(category => (
                     <button
-                      onClick={() => handleGenerateFromTemplate(template.id)}
-                      disabled={isGenerating}
-                      className="ml-4 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                      key={category.id ?? 'all'}
+                      onClick={() => setSelectedCategory(category.id)}
+                      className={`px-3 py-1 text-sm rounded-full border ${
+                        selectedCategory === category.id
+                          ? 'bg-blue-600 text-white border-blue-600'
+                          : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                      }`}
                     >
-                      Generate
+                      {category.label}
                     </button>
-                  </div>
+                  ))}
                 </div>
-              ))}
-            </div>
+
+                <div className="grid gap-6">
+                  {templates.map((template) => (
+                    <div
+                      key={template.id}
+                      className="p-6 border border-gray-200 dark:border-gray-700 rounded-lg"
+                    >
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <h4 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+                            {template.name}
+                          </h4>
+                          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                            {template.description}
+                          </p>
+                          <div className="space-y-2">
+                            {template.structure.map((component, index) => (
+                              <div key={index} className="flex items-center space-x-2 text-sm">
+                                <span className="px-2 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded">
+                                  {component.type}
+                                  {component.required && ' *'}
+                                </span>
+                                <span className="text-gray-600 dark:text-gray-400 truncate">
+                                  {component.defaultContent || component.placeholder}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                        <div className="ml-4 flex flex-col space-y-2">
+                          <button
+                            onClick={() => setFillingTemplateId(template.id)}
+                            disabled={isGenerating}
+                            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                          >
+                            Use Template
+                          </button>
+                          {customTemplateIds.has(template.id) && (
+                            <button
+                              onClick={() => deleteCustomTemplate(template.id)}
+                              className="px-4 py-2 text-sm text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20"
+                            >
+                              Delete
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {error && (
+              <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <p className="text-sm text-red-600 dark:text-red-400 whitespace-pre-line">{error}</p>
+              </div>
+            )}
           </div>
         )}
       </div>
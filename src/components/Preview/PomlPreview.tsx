@@ -3,16 +3,19 @@
  * Features: Syntax highlighting, error indicators, copy to clipboard, download
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { usePomlStore } from '../../hooks';
-import type { ValidationError } from '../../types';
+import type { BestPracticeSuggestion, ValidationError } from '../../types';
 
 interface PomlPreviewProps {
   pomlContent: string;
   isValid: boolean;
   validationErrors: ValidationError[];
+  suggestions?: BestPracticeSuggestion[];
+  onApplySuggestion?: (suggestion: BestPracticeSuggestion) => void;
+  onSaveAsTemplate?: () => void;
   className?: string;
 }
 
@@ -21,6 +24,7 @@ interface PreviewHeaderProps {
   isValid: boolean;
   onCopyToClipboard: () => void;
   onDownload: () => void;
+  onSaveAsTemplate?: () => void;
   copySuccess: boolean;
 }
 
@@ -29,6 +33,7 @@ const PreviewHeader: React.FC<PreviewHeaderProps> = ({
   isValid,
   onCopyToClipboard,
   onDownload,
+  onSaveAsTemplate,
   copySuccess
 }) => (
   <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
@@ -78,6 +83,19 @@ const PreviewHeader: React.FC<PreviewHeaderProps> = ({
         </svg>
         <span>Download</span>
       </button>
+
+      {onSaveAsTemplate && (
+        <button
+          onClick={onSaveAsTemplate}
+          disabled={!pomlContent}
+          className="flex items-center space-x-1 px-3 py-1.5 bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+          </svg>
+          <span>Save as Template</span>
+        </button>
+      )}
     </div>
   </div>
 );
@@ -106,6 +124,10 @@ const ErrorPanel: React.FC<ErrorPanelProps> = ({ errors }) => (
               {error.line && (
                 <div className="text-red-600 dark:text-red-400 text-xs">
                   Line {error.line}
+                  {error.column && `, column ${error.column}`}
+                  {error.rule && (
+                    <span className="ml-2 font-mono opacity-75">{error.rule}</span>
+                  )}
                 </div>
               )}
             </div>
@@ -116,15 +138,68 @@ const ErrorPanel: React.FC<ErrorPanelProps> = ({ errors }) => (
   </div>
 );
 
+interface SuggestionsPanelProps {
+  suggestions: BestPracticeSuggestion[];
+  onApply?: (suggestion: BestPracticeSuggestion) => void;
+}
+
+const SuggestionsPanel: React.FC<SuggestionsPanelProps> = ({ suggestions, onApply }) => (
+  <div className="border-t border-gray-200 dark:border-gray-700 bg-blue-50 dark:bg-blue-900/20">
+    <div className="p-4">
+      <h3 className="text-sm font-medium text-blue-800 dark:text-blue-200 mb-2">
+        Suggestions ({suggestions.length})
+      </h3>
+      <div className="space-y-2">
+        {suggestions.map(suggestion => (
+          <div
+            key={suggestion.id}
+            className="flex items-start justify-between space-x-2 text-sm"
+          >
+            <div className="flex items-start space-x-2">
+              <div className="flex-shrink-0 w-1 h-1 bg-blue-500 rounded-full mt-2"></div>
+              <div>
+                <div className="text-blue-700 dark:text-blue-300">
+                  {suggestion.message}
+                </div>
+                <div className="text-blue-600 dark:text-blue-400 text-xs">
+                  {suggestion.line && `Line ${suggestion.line} · `}
+                  <span className="font-mono opacity-75">{suggestion.rule}</span>
+                </div>
+              </div>
+            </div>
+            {suggestion.fix && onApply && (
+              <button
+                onClick={() => onApply(suggestion)}
+                className="flex-shrink-0 px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                title={suggestion.fix.label}
+              >
+                Apply
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
 export const PomlPreview: React.FC<PomlPreviewProps> = ({
   pomlContent,
   isValid,
   validationErrors,
+  suggestions = [],
+  onApplySuggestion,
+  onSaveAsTemplate,
   className = ''
 }) => {
   const { theme } = usePomlStore();
   const [copySuccess, setCopySuccess] = useState(false);
 
+  const errorLines = useMemo(
+    () => new Set(validationErrors.map(error => error.line).filter(Boolean)),
+    [validationErrors]
+  );
+
   const handleCopyToClipboard = useCallback(async () => {
     try {
       await navigator.clipboard.writeText(pomlContent);
@@ -171,6 +246,7 @@ export const PomlPreview: React.FC<PomlPreviewProps> = ({
         isValid={isValid}
         onCopyToClipboard={handleCopyToClipboard}
         onDownload={handleDownload}
+        onSaveAsTemplate={onSaveAsTemplate}
         copySuccess={copySuccess}
       />
       
@@ -195,6 +271,11 @@ export const PomlPreview: React.FC<PomlPreviewProps> = ({
             }}
             wrapLines={true}
             wrapLongLines={true}
+            lineProps={(lineNumber: number) => ({
+              style: errorLines.has(lineNumber)
+                ? { display: 'block', backgroundColor: 'rgba(239, 68, 68, 0.15)' }
+                : { display: 'block' }
+            })}
           >
             {pomlContent}
           </SyntaxHighlighter>
@@ -214,6 +295,10 @@ export const PomlPreview: React.FC<PomlPreviewProps> = ({
       {!isValid && validationErrors.length > 0 && (
         <ErrorPanel errors={validationErrors} />
       )}
+
+      {suggestions.length > 0 && (
+        <SuggestionsPanel suggestions={suggestions} onApply={onApplySuggestion} />
+      )}
     </div>
   );
 };
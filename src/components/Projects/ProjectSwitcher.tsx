@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import {
+  ChevronDownIcon,
+  DocumentDuplicateIcon,
+  FolderIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import { usePomlStore } from '../../hooks';
+import { formatDate } from '../../utils/helpers';
+
+export const ProjectSwitcher: React.FC = () => {
+  const {
+    projects,
+    currentProjectId,
+    inputText,
+    createProject,
+    openProject,
+    renameProject,
+    duplicateProject,
+    deleteProject
+  } = usePomlStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const currentProject = projects.find(project => project.id === currentProjectId);
+
+  // Run a repository action, surfacing failures in the menu instead of throwing
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Project operation failed');
+    }
+  };
+
+  const handleCreate = (fromCurrent: boolean) => run(async () => {
+    const name = fromCurrent ? 'Untitled project' : `Project ${projects.length + 1}`;
+    await createProject(name, { fromCurrent });
+    setIsOpen(false);
+  });
+
+  const handleOpen = (projectId: string) => run(async () => {
+    await openProject(projectId);
+    setIsOpen(false);
+  });
+
+  const startRename = (projectId: string, name: string) => {
+    setRenamingId(projectId);
+    setRenameValue(name);
+  };
+
+  const commitRename = () => run(async () => {
+    if (renamingId && renameValue.trim()) {
+      await renameProject(renamingId, renameValue.trim());
+    }
+    setRenamingId(null);
+  });
+
+  const handleDelete = (projectId: string, name: string) => {
+    if (window.confirm(`Delete project "${name}"? This cannot be undone.`)) {
+      run(() => deleteProject(projectId));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-3 py-2 bg-white/10 hover:bg-white/20 backdrop-blur rounded-xl text-white text-sm transition-all duration-200"
+      >
+        <FolderIcon className="w-4 h-4" />
+        <span className="max-w-[12rem] truncate">{currentProject?.name ?? 'Unsaved workspace'}</span>
+        <ChevronDownIcon className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-40 mt-2 w-80 rounded-xl bg-white dark:bg-gray-800 shadow-xl border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-2 p-3 border-b border-gray-200 dark:border-gray-700">
+            <button
+              onClick={() => handleCreate(false)}
+              className="flex items-center space-x-1 px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              <PlusIcon className="w-4 h-4" />
+              <span>New Project</span>
+            </button>
+            {!currentProjectId && inputText.trim() && (
+              <button
+                onClick={() => handleCreate(true)}
+                className="px-3 py-1.5 text-xs bg-green-600 text-white rounded hover:bg-green-700"
+              >
+                Save Workspace as Project
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <p className="px-3 pt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+          )}
+
+          <ul className="max-h-80 overflow-auto py-1">
+            {projects.length === 0 && (
+              <li className="px-3 py-4 text-sm text-center text-gray-500 dark:text-gray-400">No saved projects yet</li>
+            )}
+            {projects.map(project => (
+              <li
+                key={project.id}
+                className={`group flex items-center justify-between px-3 py-2 ${
+                  project.id === currentProjectId ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                {renamingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                ) : (
+                  <button onClick={() => handleOpen(project.id)} className="flex-1 min-w-0 text-left">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white truncate">{project.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{formatDate(new Date(project.lastModified))}</div>
+                  </button>
+                )}
+
+                <div className="flex items-center space-x-1 ml-2 opacity-0 group-hover:opacity-100">
+                  <button
+                    onClick={() => startRename(project.id, project.name)}
+                    title="Rename"
+                    className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  >
+                    <PencilIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => run(() => duplicateProject(project.id))}
+                    title="Duplicate"
+                    className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  >
+                    <DocumentDuplicateIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(project.id, project.name)}
+                    title="Delete"
+                    className="p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import Modal from '../common/Modal';
+import { templateLibrary } from '../../generator';
+import { usePomlStore } from '../../hooks';
+
+interface SaveTemplateDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({ isOpen, onClose }) => {
+  const { detectedSections, generatedPoml, saveCustomTemplate } = usePomlStore();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+
+  // Prefer the detected sections; fall back to the POML when it was written or edited by hand
+  const preview = useMemo(() => {
+    const info = { name: name || 'Untitled template', description };
+    return detectedSections.length > 0
+      ? templateLibrary.createTemplate(detectedSections, info)
+      : templateLibrary.createTemplateFromPoml(generatedPoml, info);
+  }, [detectedSections, generatedPoml, name, description]);
+
+  const handleSave = () => {
+    saveCustomTemplate({ ...preview, name: name.trim() });
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Save as Template" size="lg">
+      <div className="space-y-4">
+        <label className="block">
+          <span className="text-sm font-medium text-gray-900 dark:text-white">Name</span>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Support ticket triage"
+            className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </label>
+
+        <label className="block">
+          <span className="text-sm font-medium text-gray-900 dark:text-white">Description</span>
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What is this template for?"
+            className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </label>
+
+        <div>
+          <span className="text-sm font-medium text-gray-900 dark:text-white">Components</span>
+          {preview.structure.length > 0 ? (
+            <ul className="mt-1 space-y-1">
+              {preview.structure.map((component, index) => (
+                <li key={index} className="flex items-center space-x-2 text-sm">
+                  <span className="px-2 py-0.5 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded">
+                    {component.type}
+                    {component.required && ' *'}
+                  </span>
+                  <span className="text-gray-600 dark:text-gray-400 truncate">{component.placeholder}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Nothing to save yet. Analyze some text or generate POML first.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim() || preview.structure.length === 0}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Template
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default SaveTemplateDialog;
@@ -0,0 +1,78 @@
+import React, { useMemo, useState } from 'react';
+import type { PomlTemplate, TemplateValues } from '../../types';
+import { templateLibrary } from '../../generator';
+
+interface TemplateFillFormProps {
+  template: PomlTemplate;
+  isGenerating?: boolean;
+  onGenerate: (values: TemplateValues) => void;
+  onCancel: () => void;
+}
+
+export const TemplateFillForm: React.FC<TemplateFillFormProps> = ({
+  template,
+  isGenerating = false,
+  onGenerate,
+  onCancel
+}) => {
+  const [values, setValues] = useState<TemplateValues>(() => templateLibrary.getInitialValues(template));
+
+  const { missing } = useMemo(() => templateLibrary.fillTemplate(template, values), [template, values]);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-lg font-medium text-gray-900 dark:text-white">{template.name}</h4>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{template.useCase}</p>
+      </div>
+
+      {template.structure.map((component, index) => {
+        const isMissing = missing.includes(component);
+
+        return (
+          <label key={index} className="block">
+            <span className="text-sm font-medium text-gray-900 dark:text-white">
+              {component.type}
+              {component.required && <span className="ml-1 text-red-600">*</span>}
+            </span>
+            <textarea
+              value={values[index] ?? ''}
+              onChange={(e) => setValues(prev => ({ ...prev, [index]: e.target.value }))}
+              placeholder={component.placeholder}
+              rows={3}
+              className={`mt-1 w-full px-3 py-2 text-sm border rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                isMissing ? 'border-red-400 dark:border-red-500' : 'border-gray-300 dark:border-gray-600'
+              }`}
+            />
+            {isMissing && (
+              <span className="text-xs text-red-600 dark:text-red-400">This component is required</span>
+            )}
+          </label>
+        );
+      })}
+
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => onGenerate(values)}
+          disabled={isGenerating || missing.length > 0}
+          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isGenerating ? 'Generating...' : 'Generate'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500"
+        >
+          Cancel
+        </button>
+        {missing.length > 0 && (
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            Fill in {missing.length} required component{missing.length === 1 ? '' : 's'} to continue
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateFillForm;
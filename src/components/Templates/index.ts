@@ -0,0 +1,2 @@
+export { TemplateFillForm } from './TemplateFillForm';
+export { SaveTemplateDialog } from './SaveTemplateDialog';
@@ -3,9 +3,14 @@
  * This shows the parser in action with real examples
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useParser } from '../hooks/useParser';
-import type { DetectedSection } from '../types';
+import { usePomlStore } from '../hooks/usePoml';
+import { BUILT_IN_PATTERN_SOURCE } from '../parser/patternPacks';
+import type { DetectedSection, SectionType } from '../types';
+import { PARSING_CONFIG, SECTION_TYPES, SECTION_TYPE_BADGES, SECTION_TYPE_LABELS } from '../utils/constants';
+import { ParseIndicator } from './Editor';
+import { LearningPanel, LintRulesPanel, ParsingSettingsPanel, PatternPacksPanel } from './Patterns';
 
 const samplePrompts = {
   dataAnalyst: `You are a senior data analyst with expertise in statistical analysis and data visualization.
@@ -62,7 +67,20 @@ export const TextAnalysisDemo: React.FC = () => {
   const [useCustomText, setUseCustomText] = useState(false);
   const [analysisResults, setAnalysisResults] = useState<DetectedSection[]>([]);
   
-  const { analyzeText, isAnalyzing, lastAnalysis, analysisStats } = useParser();
+  const { analyzeText, isAnalyzing, progress, lastAnalysis, analysisStats } = useParser();
+  const { settings, recordFeedback } = usePomlStore();
+
+  // The text is re-analyzed as it is typed or picked, and when the parsing settings change;
+  // each analysis cancels the one still running
+  useEffect(() => {
+    const textToAnalyze = useCustomText ? customText : samplePrompts[selectedPrompt];
+    if (!textToAnalyze.trim()) return;
+
+    const timer = setTimeout(async () => {
+      setAnalysisResults(await analyzeText(textToAnalyze));
+    }, PARSING_CONFIG.DEBOUNCE_DELAY);
+    return () => clearTimeout(timer);
+  }, [useCustomText, customText, selectedPrompt, analyzeText]);
 
   const handleAnalyze = async () => {
     const textToAnalyze = useCustomText ? customText : samplePrompts[selectedPrompt];
@@ -72,22 +90,40 @@ export const TextAnalysisDemo: React.FC = () => {
     setAnalysisResults(results);
   };
 
+  // Confirming or correcting a section teaches the analyzer for the next run
+  const handleFeedback = (section: DetectedSection, correctedType: SectionType) => {
+    recordFeedback({
+      predictedType: section.type,
+      correctedType,
+      patterns: section.patterns ?? [],
+      text: section.content
+    });
+    setAnalysisResults(results => results.map(result =>
+      result.id === section.id
+        ? { ...result, type: correctedType, confidence: 100, metadata: { ...result.metadata, userCorrected: true } }
+        : result
+    ));
+  };
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 80) return 'text-green-600';
     if (confidence >= 60) return 'text-yellow-600';
     return 'text-red-600';
   };
 
-  const getSectionTypeColor = (type: string) => {
-    const colors = {
-      role: 'bg-blue-100 text-blue-800',
-      task: 'bg-green-100 text-green-800',
-      constraints: 'bg-yellow-100 text-yellow-800',
-      examples: 'bg-purple-100 text-purple-800',
-      outputFormat: 'bg-pink-100 text-pink-800',
-      unknown: 'bg-gray-100 text-gray-800'
-    };
-    return colors[type as keyof typeof colors] || colors.unknown;
+  // Which pattern packs produced a section's matches, with how many matches each
+  const describeSources = (section: DetectedSection) => {
+    const counts = new Map<string, number>();
+    (section.spans ?? []).forEach(span => {
+      const source = span.source ?? BUILT_IN_PATTERN_SOURCE;
+      counts.set(source, (counts.get(source) ?? 0) + 1);
+    });
+    return [...counts].map(([source, count]) => {
+      const name = source === BUILT_IN_PATTERN_SOURCE
+        ? 'Built-in'
+        : settings.patternPacks.find(pack => pack.id === source)?.name ?? source;
+      return `${name} (${count})`;
+    }).join(', ');
   };
 
   return (
@@ -147,19 +183,37 @@ export const TextAnalysisDemo: React.FC = () => {
         </div>
 
         {/* Analyze Button */}
-        <button
-          onClick={handleAnalyze}
-          disabled={isAnalyzing}
-          className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
-        >
-          {isAnalyzing ? 'Analyzing...' : 'Analyze Text'}
-        </button>
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={handleAnalyze}
+            disabled={isAnalyzing}
+            className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isAnalyzing ? 'Analyzing...' : 'Analyze Text'}
+          </button>
+          <ParseIndicator isProcessing={isAnalyzing} progress={progress} />
+        </div>
       </div>
 
+      <ParsingSettingsPanel />
+
+      <LintRulesPanel />
+
+      <PatternPacksPanel />
+
+      <LearningPanel />
+
       {/* Analysis Results */}
       {lastAnalysis && (
         <div className="bg-white rounded-lg shadow-lg p-6">
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Analysis Results</h2>
+          <div className="flex items-baseline justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-800">Analysis Results</h2>
+            {lastAnalysis.language && (
+              <span className="text-sm text-gray-500">
+                Language: {lastAnalysis.language.language.toUpperCase()} ({Math.round(lastAnalysis.language.confidence * 100)}%)
+              </span>
+            )}
+          </div>
           
           {/* Statistics */}
           <div className="grid grid-cols-4 gap-4 mb-6 p-4 bg-gray-50 rounded-lg">
@@ -181,6 +235,24 @@ export const TextAnalysisDemo: React.FC = () => {
             </div>
           </div>
 
+          {/* Template Variables */}
+          {lastAnalysis.variables && lastAnalysis.variables.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-gray-700 mb-2">Template Variables</h3>
+              <div className="flex flex-wrap gap-2">
+                {lastAnalysis.variables.map(variable => (
+                  <span
+                    key={variable.name}
+                    title={variable.occurrences.map(occurrence => occurrence.text).join(', ')}
+                    className="px-2 py-1 rounded bg-indigo-50 text-xs font-mono text-indigo-800"
+                  >
+                    {`{{ ${variable.name} }}`} ×{variable.occurrences.length}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Detected Sections */}
           <div className="space-y-4">
             <h3 className="text-lg font-medium text-gray-700">Detected Sections</h3>
@@ -191,16 +263,36 @@ export const TextAnalysisDemo: React.FC = () => {
                 <div key={section.id} className="border border-gray-200 rounded-lg p-4">
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center space-x-2">
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getSectionTypeColor(section.type)}`}>
-                        {section.type}
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${SECTION_TYPE_BADGES[section.type]}`}>
+                        {SECTION_TYPE_LABELS[section.type]}
                       </span>
                       <span className={`font-semibold ${getConfidenceColor(section.confidence)}`}>
                         {section.confidence}% confidence
                       </span>
                     </div>
-                    <span className="text-sm text-gray-500">
-                      Position: {section.startIndex}-{section.endIndex}
-                    </span>
+                    <div className="flex items-center space-x-3">
+                      {!section.metadata?.userCorrected && (
+                        <button
+                          onClick={() => handleFeedback(section, section.type)}
+                          className="text-xs text-green-700 hover:underline"
+                        >
+                          Correct
+                        </button>
+                      )}
+                      <select
+                        value={section.type}
+                        onChange={(e) => handleFeedback(section, e.target.value as SectionType)}
+                        title="Correct the section type"
+                        className="text-xs border border-gray-300 rounded px-1 py-0.5"
+                      >
+                        {SECTION_TYPES.map(type => (
+                          <option key={type} value={type}>{SECTION_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                      <span className="text-sm text-gray-500">
+                        Position: {section.startIndex}-{section.endIndex}
+                      </span>
+                    </div>
                   </div>
                   <div className="text-gray-700 bg-gray-50 p-3 rounded">
                     {section.content}
@@ -210,6 +302,11 @@ export const TextAnalysisDemo: React.FC = () => {
                       Matched patterns: {section.patterns.join(', ')}
                     </div>
                   )}
+                  {section.spans && section.spans.length > 0 && (
+                    <div className="mt-1 text-xs text-gray-500">
+                      Matched by: {describeSources(section)}
+                    </div>
+                  )}
                 </div>
               ))
             )}
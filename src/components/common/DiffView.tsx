@@ -0,0 +1,46 @@
+import React from 'react';
+import classNames from 'classnames';
+import type { DiffLine } from '../../utils/diff';
+
+interface DiffViewProps {
+  lines: DiffLine[];
+  showLineNumbers?: boolean;
+  className?: string;
+}
+
+const lineClasses: Record<DiffLine['type'], string> = {
+  added: 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300',
+  removed: 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300',
+  unchanged: 'text-gray-600 dark:text-gray-400',
+};
+
+const linePrefix: Record<DiffLine['type'], string> = {
+  added: '+ ',
+  removed: '- ',
+  unchanged: '  ',
+};
+
+const DiffView: React.FC<DiffViewProps> = ({
+  lines,
+  showLineNumbers = false,
+  className,
+}) => (
+  <pre className={classNames('overflow-auto rounded bg-gray-50 dark:bg-gray-800 text-xs font-mono', className)}>
+    {lines.map((line, index) => (
+      <div key={index} className={classNames('flex', lineClasses[line.type])}>
+        {showLineNumbers && (
+          <>
+            <span className="w-10 shrink-0 pr-2 text-right opacity-60 select-none">{line.oldLineNumber ?? ''}</span>
+            <span className="w-10 shrink-0 pr-2 text-right opacity-60 select-none">{line.newLineNumber ?? ''}</span>
+          </>
+        )}
+        <span className="whitespace-pre-wrap break-all">
+          {linePrefix[line.type]}
+          {line.text}
+        </span>
+      </div>
+    ))}
+  </pre>
+);
+
+export default DiffView;
@@ -1,3 +1,4 @@
 export { default as Button } from './Button';
 export { default as Panel } from './Panel';
 export { default as Modal } from './Modal';
+export { default as DiffView } from './DiffView';
@@ -0,0 +1,60 @@
+/**
+ * Evaluation CLI - Scores the parser against the gold corpus from the command line
+ * Usage: npm run eval -- [--detector analyzeText|extractSections] [--corpus prompts.json] [--overlap 0.5] [--json] [--verbose]
+ */
+
+/// <reference types="node" />
+
+import { readFileSync } from 'node:fs';
+import type { EvaluationReport, GoldPrompt } from '../types';
+import { GOLD_CORPORA } from './goldCorpus';
+import { PARSER_DETECTORS, parserEvaluator } from './parserEvaluator';
+
+type DetectorName = keyof typeof PARSER_DETECTORS;
+
+/**
+ * Value of `--name value`, or undefined when the flag is absent
+ */
+const option = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const main = async (args: string[]): Promise<void> => {
+  const detectorOption = option(args, 'detector');
+  if (detectorOption && !(detectorOption in PARSER_DETECTORS)) {
+    throw new Error(`Unknown detector "${detectorOption}", expected one of: ${Object.keys(PARSER_DETECTORS).join(', ')}`);
+  }
+  const detectors = detectorOption
+    ? [detectorOption as DetectorName]
+    : Object.keys(PARSER_DETECTORS) as DetectorName[];
+
+  // A corpus file holds a JSON array of gold prompts with explicit span offsets; without one,
+  // the built-in corpora are scored one by one
+  const corpusPath = option(args, 'corpus');
+  const corpora: Record<string, readonly GoldPrompt[]> = corpusPath
+    ? { [corpusPath]: JSON.parse(readFileSync(corpusPath, 'utf8')) }
+    : { ...GOLD_CORPORA };
+
+  const overlapOption = option(args, 'overlap');
+  const overlapThreshold = overlapOption === undefined ? undefined : Number(overlapOption);
+  if (overlapThreshold !== undefined && !(overlapThreshold > 0 && overlapThreshold <= 1)) {
+    throw new Error(`--overlap must be a number in (0, 1], got "${overlapOption}"`);
+  }
+
+  const reports: EvaluationReport[] = [];
+  for (const detector of detectors) {
+    for (const [corpusName, corpus] of Object.entries(corpora)) {
+      reports.push(await parserEvaluator.evaluate(detector, PARSER_DETECTORS[detector](), corpus, { corpusName, overlapThreshold }));
+    }
+  }
+
+  console.log(args.includes('--json')
+    ? JSON.stringify(reports, null, 2)
+    : reports.map(report => parserEvaluator.formatReport(report, args.includes('--verbose'))).join('\n\n'));
+};
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
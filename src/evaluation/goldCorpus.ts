@@ -0,0 +1,259 @@
+/**
+ * Gold Corpus - Prompts annotated by hand with the sections a careful reader would mark
+ * Written as parts so the span offsets cannot drift from the text; plain strings belong to no section.
+ * GOLD_CORPUS opens its sections with the phrases the detector's patterns look for ("You are…",
+ * "Constraints:"), so it measures the patterns working as intended. INDEPENDENT_CORPUS was written
+ * without looking at the patterns: paraphrases, no headings and several sections in one paragraph
+ */
+
+import type { GoldPrompt, SectionType } from '../types';
+
+export type GoldPart = string | [SectionType, string];
+
+/**
+ * Gold prompt whose text is the parts joined in order, with a span for every annotated part
+ */
+export const goldPrompt = (id: string, parts: GoldPart[]): GoldPrompt => {
+  let text = '';
+  const spans: GoldPrompt['spans'] = [];
+
+  parts.forEach(part => {
+    if (typeof part === 'string') {
+      text += part;
+      return;
+    }
+    const [type, content] = part;
+    spans.push({ type, startIndex: text.length, endIndex: text.length + content.length });
+    text += content;
+  });
+
+  return { id, text, spans };
+};
+
+const GAP = '\n\n';
+
+// Prompts whose sections open with the detector's own trigger phrases
+export const GOLD_CORPUS: readonly GoldPrompt[] = [
+  goldPrompt('data-analyst', [
+    ['role', 'You are a senior data analyst with expertise in statistical analysis and data visualization.'],
+    GAP,
+    ['task', 'Your task is to analyze the provided dataset and identify key trends, patterns, and insights that could inform business decisions.'],
+    GAP,
+    ['constraints', 'Please ensure you:\n- Don\'t include personal opinions in your analysis\n- Use only the data provided, don\'t make assumptions\n- Keep your analysis under 500 words'],
+    GAP,
+    ['examples', 'For example, if analyzing sales data, look for seasonal patterns, top-performing products, and growth trends.'],
+    GAP,
+    ['outputFormat', 'Present your findings in JSON format with the keys summary, key_insights and recommendations.']
+  ]),
+  goldPrompt('creative-writer', [
+    ['role', 'Act as a creative writing assistant specialized in short fiction.'],
+    GAP,
+    ['task', 'Write a compelling short story based on the theme I provide.'],
+    GAP,
+    ['constraints', 'Constraints:\n- Keep the story between 300-500 words\n- Avoid clichéd endings\n- Make it suitable for all ages'],
+    GAP,
+    ['style', 'Use a playful, lighthearted tone with vivid imagery.'],
+    GAP,
+    ['outputFormat', 'Format your response as a complete story with a title, followed by the story in three parts.']
+  ]),
+  goldPrompt('code-review', [
+    ['role', 'You are an experienced software engineer conducting a code review.'],
+    GAP,
+    ['task', 'Please review the code I provide and offer constructive feedback on code quality, best practices, and potential improvements.'],
+    GAP,
+    ['constraints', 'Don\'t just point out problems. Never rewrite the whole file.'],
+    GAP,
+    ['outputFormat', 'Provide your feedback in markdown format with a heading for each aspect of the review.']
+  ]),
+  goldPrompt('support-agent', [
+    ['role', 'You are a friendly customer support agent for an online furniture store.'],
+    GAP,
+    ['context', 'Background: our deliveries have been delayed by two weeks because of a warehouse move, and many customers have written in about it.'],
+    GAP,
+    ['task', 'Reply to the customer email below and explain the delay.'],
+    GAP,
+    ['style', 'The tone should be warm, apologetic and reassuring.'],
+    GAP,
+    ['constraints', 'Do not promise a delivery date. Never offer a refund unless the customer asks for one.']
+  ]),
+  goldPrompt('executive-summary', [
+    ['task', 'Summarize the quarterly report in plain language.'],
+    GAP,
+    ['audience', 'The audience is busy executives with little technical background.'],
+    GAP,
+    ['constraints', 'Keep the summary under 150 words and avoid technical jargon.'],
+    GAP,
+    ['outputFormat', 'Return the summary as three bullet points followed by a one-sentence recommendation.']
+  ]),
+  goldPrompt('sentiment-classifier', [
+    ['task', 'Classify the sentiment of each customer review as positive, negative or neutral.'],
+    GAP,
+    ['examples', 'Review: The delivery was fast and the chair is great.\nLabel: positive\n\nReview: It broke after a week.\nLabel: negative'],
+    GAP,
+    ['outputFormat', 'Respond with a JSON array of objects with the keys review and label.']
+  ]),
+  goldPrompt('chat-transcript', [
+    ['role', 'You are a helpful assistant for a bank.'],
+    GAP,
+    ['examples', 'User: How do I reset my PIN?\nAssistant: You can reset it in the app under Settings, then Security.\nUser: And if I am locked out?\nAssistant: Call the number on the back of your card.'],
+    GAP,
+    ['constraints', 'Never ask the customer for their full card number.']
+  ]),
+  goldPrompt('markdown-headings', [
+    ['role', '## Role\nYou are a technical writer for a cloud platform.'],
+    GAP,
+    ['task', '## Task\nWrite a getting started guide for the command line tool.'],
+    GAP,
+    ['audience', '## Audience\nDevelopers who have never used the platform before.'],
+    GAP,
+    ['outputFormat', '## Output Format\nUse markdown with numbered steps and fenced code blocks.']
+  ]),
+  goldPrompt('translation', [
+    ['task', 'Translate the following paragraph into French.'],
+    GAP,
+    ['inputData', 'Text to translate: The weather will be sunny tomorrow, with a light breeze in the afternoon.'],
+    GAP,
+    ['outputFormat', 'Output only the translated text and nothing else.']
+  ]),
+  goldPrompt('tutor', [
+    ['role', 'Act as a patient high school math teacher.'],
+    GAP,
+    ['audience', 'The student is fifteen and struggles with algebra.'],
+    GAP,
+    ['task', 'Explain how to solve a quadratic equation step by step.'],
+    GAP,
+    ['style', 'Be encouraging and use simple language with short sentences.'],
+    GAP,
+    ['constraints', 'Do not give the final answer before the student has tried.']
+  ]),
+  goldPrompt('qa-pairs', [
+    ['task', 'Answer questions about our return policy.'],
+    GAP,
+    ['examples', 'Q: Can I return a sofa after 30 days?\nA: Yes, within 60 days if it is unused.\nQ: Who pays for return shipping?\nA: We do, for all orders over $100.'],
+    GAP,
+    ['constraints', 'Only use information from the policy. Do not make up exceptions.']
+  ]),
+  goldPrompt('meeting-notes', [
+    ['context', 'For context, the team recently migrated from a monolith to microservices and the on-call load has doubled.'],
+    GAP,
+    ['task', 'Extract every action item from the meeting notes below, with its owner and due date.'],
+    GAP,
+    ['inputData', 'Here is the transcript of the meeting:\nAlex will update the runbook by Friday. Sam to review alert thresholds next week.'],
+    GAP,
+    ['outputFormat', 'Return the result as a markdown table with the columns action, owner and due date.'],
+    GAP,
+    'Thanks in advance for your help.'
+  ])
+];
+
+// Prompts written independently of the patterns
+export const INDEPENDENT_CORPUS: readonly GoldPrompt[] = [
+  goldPrompt('independent-recipe', [
+    ['role', 'Imagine you have spent twenty years running a small vegetarian restaurant.'],
+    ' ',
+    ['task', 'I need a dinner menu for six guests, one of whom cannot eat nuts.'],
+    GAP,
+    ['constraints', 'Everything has to be ready within two hours, using a single oven.'],
+    ' ',
+    ['outputFormat', 'List the courses in serving order, each with a shopping list underneath.']
+  ]),
+  goldPrompt('independent-release-notes', [
+    ['inputData', 'Merged this sprint: faster search indexing, a fix for the logout loop on Safari, dark mode for the settings page.'],
+    GAP,
+    ['task', 'Turn these merged changes into release notes that customers will read.'],
+    ' ',
+    ['audience', 'Most of our users are accountants rather than engineers.'],
+    GAP,
+    ['style', 'Keep it upbeat but plain, and skip the exclamation marks.']
+  ]),
+  goldPrompt('independent-interview', [
+    ['context', 'Next week I am interviewing candidates for a junior backend position at a logistics startup.'],
+    ' ',
+    ['task', 'Could you come up with questions that reveal how someone debugs a production issue?'],
+    GAP,
+    ['outputFormat', 'Eight questions would be ideal, each followed by what a strong answer sounds like.']
+  ]),
+  goldPrompt('independent-legal', [
+    ['role', 'Pretend to be a contracts lawyer reading on behalf of a freelance designer.'],
+    GAP,
+    ['inputData', '"The Client shall own all work product, including preliminary sketches, upon creation. Payment is due within 90 days of final delivery."'],
+    GAP,
+    ['task', 'Point out which clauses work against the designer and suggest fairer wording.'],
+    ' ',
+    ['constraints', 'Stick to the text above and say so when something depends on local law.']
+  ]),
+  goldPrompt('independent-newsletter', [
+    ['task', 'Draft this month\'s newsletter for the community garden.'],
+    ' ',
+    ['context', 'We planted the new herb beds in April and the rain barrel fundraiser reached its goal.'],
+    GAP,
+    ['audience', 'Readers range from retired neighbours to families with small children.'],
+    ' ',
+    ['style', 'Friendly and chatty, like a note pinned to the shed door.']
+  ]),
+  goldPrompt('independent-sql', [
+    ['task', 'Help me write a query that finds customers who ordered last year but not this year.'],
+    GAP,
+    ['inputData', 'Tables: customers(id, name, email), orders(id, customer_id, placed_at, total)'],
+    GAP,
+    ['outputFormat', 'Just the SQL, followed by one sentence on how it works.'],
+    ' ',
+    ['constraints', 'It runs on PostgreSQL 12, so avoid anything newer.']
+  ]),
+  goldPrompt('independent-feedback', [
+    ['role', 'Take the part of a demanding but fair writing coach.'],
+    ' ',
+    ['task', 'Go through the essay I paste next and tell me where the argument falls apart.'],
+    GAP,
+    ['style', 'Blunt is fine; I would rather hear it from you than from my professor.'],
+    GAP,
+    ['constraints', 'Leave grammar alone unless it changes the meaning.']
+  ]),
+  goldPrompt('independent-travel', [
+    ['context', 'My partner and I land in Osaka on a Tuesday morning and fly home Sunday night.'],
+    ' ',
+    ['task', 'Plan the days in between so we see both Kyoto and Nara without rushing.'],
+    GAP,
+    ['constraints', 'We dislike crowds, and one of us uses a cane, so keep walking distances short.'],
+    GAP,
+    ['outputFormat', 'A day-by-day plan, with morning, afternoon and evening on separate lines.']
+  ]),
+  goldPrompt('independent-tagging', [
+    ['task', 'Sort each support ticket into billing, bug, feature request or other.'],
+    GAP,
+    ['examples', '"I was charged twice in March" goes under billing.\n"The export button does nothing" goes under bug.'],
+    GAP,
+    ['outputFormat', 'One line per ticket: the ticket number, a colon, then the category.']
+  ]),
+  goldPrompt('independent-pitch', [
+    ['audience', 'The people hearing this are hospital procurement officers with ten minutes to spare.'],
+    GAP,
+    ['task', 'Put together a pitch for our sterilisation tracking software.'],
+    ' ',
+    ['context', 'Last year two of our pilot hospitals cut instrument losses by a third.'],
+    GAP,
+    ['constraints', 'Make no claims about patient outcomes; we have no data on that yet.']
+  ]),
+  goldPrompt('independent-poem', [
+    ['task', 'Compose a short poem about the first frost of the year.'],
+    ' ',
+    ['style', 'Quiet and a little melancholy, in the manner of a haiku sequence.'],
+    ' ',
+    ['constraints', 'Three stanzas at the very most, and no rhyme.']
+  ]),
+  goldPrompt('independent-onboarding', [
+    ['role', 'Think of yourself as the friendly senior engineer on the team.'],
+    GAP,
+    ['context', 'A new hire starts Monday; our stack is Go services on Kubernetes with a React front end.'],
+    GAP,
+    ['task', 'Sketch a first-week plan that gets them shipping a small change by Friday.'],
+    GAP,
+    ['outputFormat', 'A checklist grouped by day.']
+  ])
+];
+
+// Corpora scored when no corpus file is given, reported separately
+export const GOLD_CORPORA: Readonly<Record<string, readonly GoldPrompt[]>> = {
+  'pattern-aligned': GOLD_CORPUS,
+  independent: INDEPENDENT_CORPUS
+};
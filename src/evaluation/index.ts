@@ -0,0 +1,3 @@
+// Parser evaluation exports
+export * from './goldCorpus';
+export * from './parserEvaluator';
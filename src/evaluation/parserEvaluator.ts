@@ -0,0 +1,231 @@
+/**
+ * Parser Evaluator - Scores section detection against gold-annotated prompts
+ * A prediction matches a gold span of its type when they overlap enough; each gold span matches at most once
+ */
+
+import type {
+  CalibrationBin,
+  DetectedSection,
+  EvaluationReport,
+  GoldPrompt,
+  GoldSpan,
+  PromptEvaluation,
+  SectionType,
+  TypeScores
+} from '../types';
+import { SectionExtractor, TextAnalyzer } from '../parser';
+import { SECTION_TYPES } from '../utils/constants';
+
+export type SectionDetector = (text: string) => Promise<DetectedSection[]>;
+
+type ScoredType = Exclude<SectionType, 'unknown'>;
+
+export interface EvaluationOptions {
+  corpusName?: string; // shown in the report, defaults to 'custom'
+  overlapThreshold?: number; // minimum intersection over union, defaults to 0.5
+  calibrationBins?: number; // confidence bins of equal width, defaults to 10
+}
+
+const DEFAULT_OVERLAP_THRESHOLD = 0.5;
+const DEFAULT_CALIBRATION_BINS = 10;
+
+// 'unknown' marks text outside every section, so it is neither annotated nor scored
+const SCORED_TYPES = SECTION_TYPES.filter((type): type is ScoredType => type !== 'unknown');
+
+// Detectors for the parser's two entry points, each on a fresh instance with the default configuration
+export const PARSER_DETECTORS: Record<'analyzeText' | 'extractSections', () => SectionDetector> = {
+  analyzeText: () => {
+    const analyzer = new TextAnalyzer();
+    return async text => (await analyzer.analyzeText(text)).sections;
+  },
+  extractSections: () => {
+    const extractor = new SectionExtractor();
+    return async text => (await extractor.extractSections(text)).sections;
+  }
+};
+
+export class ParserEvaluator {
+  /**
+   * Run `detect` over every prompt of `corpus` and score it per section type
+   */
+  public async evaluate(
+    detector: string,
+    detect: SectionDetector,
+    corpus: readonly GoldPrompt[],
+    options: EvaluationOptions = {}
+  ): Promise<EvaluationReport> {
+    const overlapThreshold = options.overlapThreshold ?? DEFAULT_OVERLAP_THRESHOLD;
+    const counts = Object.fromEntries(
+      SCORED_TYPES.map(type => [type, { gold: 0, predicted: 0, matched: 0 }])
+    ) as Record<ScoredType, { gold: number; predicted: number; matched: number }>;
+    const outcomes: Array<{ confidence: number; correct: boolean }> = [];
+    const details: PromptEvaluation[] = [];
+
+    for (const prompt of corpus) {
+      this.validatePrompt(prompt);
+      const predictions = (await detect(prompt.text)).filter(section => section.type !== 'unknown');
+      const gold = prompt.spans.filter(span => span.type !== 'unknown');
+      const matches = this.matchSpans(predictions, gold, overlapThreshold);
+
+      gold.forEach(span => counts[span.type as ScoredType].gold++);
+      predictions.forEach((section, index) => {
+        const correct = matches.has(index);
+        counts[section.type as ScoredType].predicted++;
+        if (correct) counts[section.type as ScoredType].matched++;
+        outcomes.push({ confidence: section.confidence, correct });
+      });
+
+      const matchedGold = new Set(matches.values());
+      details.push({
+        id: prompt.id,
+        missed: gold.filter((_, index) => !matchedGold.has(index)),
+        spurious: predictions
+          .filter((_, index) => !matches.has(index))
+          .map(({ type, startIndex, endIndex }) => ({ type, startIndex, endIndex }))
+      });
+    }
+
+    const perType = Object.fromEntries(
+      SCORED_TYPES.map(type => [type, this.toScores(counts[type])])
+    ) as Record<ScoredType, TypeScores>;
+    const pooled = Object.values(counts).reduce((total, count) => ({
+      gold: total.gold + count.gold,
+      predicted: total.predicted + count.predicted,
+      matched: total.matched + count.matched
+    }), { gold: 0, predicted: 0, matched: 0 });
+    const present = Object.values(perType).filter(scores => scores.gold > 0 || scores.predicted > 0);
+
+    return {
+      detector,
+      corpus: options.corpusName ?? 'custom',
+      prompts: corpus.length,
+      overlapThreshold,
+      perType,
+      micro: this.toScores(pooled),
+      macroF1: present.length > 0 ? present.reduce((sum, scores) => sum + scores.f1, 0) / present.length : 0,
+      calibration: this.calibrate(outcomes, options.calibrationBins ?? DEFAULT_CALIBRATION_BINS),
+      details
+    };
+  }
+
+  /**
+   * Plain-text report with a row per section type, the pooled scores and the calibration bins
+   */
+  public formatReport(report: EvaluationReport, verbose = false): string {
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+    const row = (name: string, scores: TypeScores) =>
+      `${name.padEnd(14)}${percent(scores.precision)}${percent(scores.recall)}${percent(scores.f1)}` +
+      `${String(scores.gold).padStart(7)}${String(scores.predicted).padStart(7)}`;
+
+    const lines = [
+      `Detector: ${report.detector} on ${report.corpus} corpus (${report.prompts} prompts, overlap >= ${report.overlapThreshold})`,
+      '',
+      `${'Type'.padEnd(14)}${'P'.padStart(7)}${'R'.padStart(7)}${'F1'.padStart(7)}${'Gold'.padStart(7)}${'Pred'.padStart(7)}`,
+      ...Object.entries(report.perType)
+        .filter(([, scores]) => scores.gold > 0 || scores.predicted > 0)
+        .map(([type, scores]) => row(type, scores)),
+      row('micro', report.micro),
+      `Macro F1: ${percent(report.macroF1).trim()}`,
+      '',
+      `Calibration (expected calibration error ${percent(report.calibration.expectedCalibrationError).trim()})`,
+      ...report.calibration.bins
+        .filter(bin => bin.count > 0)
+        .map(bin =>
+          `  ${`${bin.minConfidence}-${bin.maxConfidence}`.padEnd(8)} n=${String(bin.count).padEnd(4)}` +
+          ` confidence ${bin.meanConfidence.toFixed(1).padStart(5)}  accuracy ${percent(bin.accuracy)}`)
+    ];
+
+    if (verbose) {
+      report.details
+        .filter(detail => detail.missed.length > 0 || detail.spurious.length > 0)
+        .forEach(detail => {
+          lines.push('', `${detail.id}:`);
+          detail.missed.forEach(span => lines.push(`  missed   ${span.type} ${span.startIndex}-${span.endIndex}`));
+          detail.spurious.forEach(span => lines.push(`  spurious ${span.type} ${span.startIndex}-${span.endIndex}`));
+        });
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Throws when a gold span does not fit its prompt or names an unknown section type
+   */
+  public validatePrompt(prompt: GoldPrompt): void {
+    prompt.spans.forEach(span => {
+      if (!SECTION_TYPES.includes(span.type)) {
+        throw new Error(`Gold prompt "${prompt.id}" has a span of unknown type "${span.type}"`);
+      }
+      if (!(span.startIndex >= 0 && span.startIndex < span.endIndex && span.endIndex <= prompt.text.length)) {
+        throw new Error(`Gold prompt "${prompt.id}" has a span outside its text: ${span.startIndex}-${span.endIndex}`);
+      }
+    });
+  }
+
+  /**
+   * One-to-one matches of predictions to gold spans of the same type, best overlaps first;
+   * maps the index of each matched prediction to the index of its gold span
+   */
+  private matchSpans(predictions: DetectedSection[], gold: GoldSpan[], overlapThreshold: number): Map<number, number> {
+    const candidates = predictions.flatMap((section, predicted) => gold
+      .map((span, expected) => ({ predicted, expected, overlap: this.overlap(section, span) }))
+      .filter(candidate => gold[candidate.expected].type === section.type && candidate.overlap >= overlapThreshold));
+
+    const matches = new Map<number, number>();
+    const matchedGold = new Set<number>();
+    candidates
+      .sort((a, b) => b.overlap - a.overlap)
+      .forEach(({ predicted, expected }) => {
+        if (matches.has(predicted) || matchedGold.has(expected)) return;
+        matches.set(predicted, expected);
+        matchedGold.add(expected);
+      });
+    return matches;
+  }
+
+  /**
+   * Intersection over union of two spans
+   */
+  private overlap(a: { startIndex: number; endIndex: number }, b: { startIndex: number; endIndex: number }): number {
+    const intersection = Math.min(a.endIndex, b.endIndex) - Math.max(a.startIndex, b.startIndex);
+    if (intersection <= 0) return 0;
+    return intersection / (Math.max(a.endIndex, b.endIndex) - Math.min(a.startIndex, b.startIndex));
+  }
+
+  private toScores({ gold, predicted, matched }: { gold: number; predicted: number; matched: number }): TypeScores {
+    const precision = predicted > 0 ? matched / predicted : 0;
+    const recall = gold > 0 ? matched / gold : 0;
+    const f1 = precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0;
+    return { precision, recall, f1, gold, predicted, matched };
+  }
+
+  /**
+   * Accuracy of the predictions per confidence bin, and how far confidence strays from it overall
+   */
+  private calibrate(outcomes: Array<{ confidence: number; correct: boolean }>, binCount: number) {
+    const width = 100 / binCount;
+    const bins: CalibrationBin[] = Array.from({ length: binCount }, (_, index) => {
+      const minConfidence = Math.round(index * width);
+      const maxConfidence = Math.round((index + 1) * width);
+      const inBin = outcomes.filter(({ confidence }) => confidence >= minConfidence &&
+        (confidence < maxConfidence || (index === binCount - 1 && confidence <= maxConfidence)));
+
+      return {
+        minConfidence,
+        maxConfidence,
+        count: inBin.length,
+        meanConfidence: inBin.length > 0 ? inBin.reduce((sum, { confidence }) => sum + confidence, 0) / inBin.length : 0,
+        accuracy: inBin.length > 0 ? inBin.filter(({ correct }) => correct).length / inBin.length : 0
+      };
+    });
+
+    const expectedCalibrationError = outcomes.length > 0
+      ? bins.reduce((sum, bin) => sum + bin.count / outcomes.length * Math.abs(bin.accuracy - bin.meanConfidence / 100), 0)
+      : 0;
+
+    return { bins, expectedCalibrationError };
+  }
+}
+
+// Create singleton instance
+export const parserEvaluator = new ParserEvaluator();
@@ -1,3 +1,6 @@
 export * from './templateEngine';
 export * from './pomlFormatter';
 export * from './validator';
+export * from './pomlReader';
+export * from './enhancementEngine';
+export * from './templateLibrary';
@@ -3,6 +3,7 @@
  */
 
 import { escapeXml } from '../utils/helpers';
+import { POML_NODE_TAGS } from '../utils/constants';
 import type { PomlComponent } from './templateEngine';
 
 export interface FormattingOptions {
@@ -60,6 +61,15 @@ export class PomlFormatter {
     const indent = options.indent.repeat(depth);
     const { tag, attributes, content } = component;
 
+    // Text and comment nodes (from mixed content) are emitted without a wrapping tag
+    if (tag === POML_NODE_TAGS.TEXT || tag === POML_NODE_TAGS.COMMENT) {
+      const text = this.formatNodeText(component);
+      for (const line of text.split('\n')) {
+        lines.push(`${indent}${line}`);
+      }
+      return;
+    }
+
     // Build opening tag with attributes
     const openingTag = this.buildOpeningTag(tag, attributes, options);
     
@@ -104,6 +114,10 @@ export class PomlFormatter {
    */
   private formatComponentMinified(component: PomlComponent): string {
     const { tag, attributes, content } = component;
+
+    if (tag === POML_NODE_TAGS.TEXT || tag === POML_NODE_TAGS.COMMENT) {
+      return this.formatNodeText(component);
+    }
     const openingTag = this.buildOpeningTag(tag, attributes, this.defaultOptions);
 
     if (Array.isArray(content)) {
@@ -115,6 +129,16 @@ export class PomlFormatter {
     }
   }
 
+  /**
+   * Render a text or comment node
+   */
+  private formatNodeText(component: PomlComponent): string {
+    const text = typeof component.content === 'string' ? component.content : '';
+    return component.tag === POML_NODE_TAGS.COMMENT
+      ? `<!--${text}-->`
+      : escapeXml(text);
+  }
+
   /**
    * Build opening tag string with attributes
    */
@@ -158,6 +182,13 @@ export class PomlFormatter {
   public validateComponent(component: PomlComponent): string[] {
     const errors: string[] = [];
 
+    if (component.tag === POML_NODE_TAGS.TEXT || component.tag === POML_NODE_TAGS.COMMENT) {
+      if (typeof component.content !== 'string') {
+        errors.push(`${component.tag} node content must be a string`);
+      }
+      return errors;
+    }
+
     // Validate tag name
     if (!this.isValidTagName(component.tag)) {
       errors.push(`Invalid tag name: '${component.tag}'`);
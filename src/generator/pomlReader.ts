@@ -0,0 +1,245 @@
+/**
+ * POML Reader - Parses POML markup back into PomlComponent trees
+ * Complements PomlFormatter so that hand-edited or imported .poml files can be
+ * inspected, re-formatted and re-linted: format(parse(poml).components) round-trips
+ */
+
+import type { PomlComponent, SourceSpan, ValidationError } from '../types';
+import { PomlTokenizer, type PomlToken } from '../linter/pomlTokenizer';
+import { syntaxValidator } from '../linter/syntaxValidator';
+import { unescapeXml } from '../utils/helpers';
+import { POML_NODE_TAGS } from '../utils/constants';
+
+export interface ReadOptions {
+  preserveComments?: boolean;
+}
+
+export interface PomlDocument {
+  components: PomlComponent[];
+  declaration?: string;
+  errors: ValidationError[];
+}
+
+interface OpenFrame {
+  token: PomlToken | null; // null for the document root
+  children: PomlComponent[];
+}
+
+export class PomlReader {
+  private tokenizer = new PomlTokenizer();
+
+  /**
+   * Parse POML markup into a component tree with source spans.
+   * Malformed input is read on a best-effort basis; problems are reported in `errors`.
+   */
+  public parse(poml: string, options: ReadOptions = {}): PomlDocument {
+    const { preserveComments = true } = options;
+    const { tokens } = this.tokenizer.tokenize(poml);
+
+    const root: OpenFrame = { token: null, children: [] };
+    const stack: OpenFrame[] = [root];
+    let declaration: string | undefined;
+
+    for (const token of tokens) {
+      const current = stack[stack.length - 1];
+
+      switch (token.type) {
+        case 'declaration':
+          if (!declaration && token.name === 'xml') {
+            declaration = `<?${token.text}?>`;
+          }
+          break;
+
+        case 'comment':
+          if (preserveComments) {
+            current.children.push({ tag: POML_NODE_TAGS.COMMENT, content: token.text!, span: token.span });
+          }
+          break;
+
+        case 'text':
+          current.children.push({ tag: POML_NODE_TAGS.TEXT, content: unescapeXml(token.text!), span: token.span });
+          break;
+
+        case 'cdata':
+          current.children.push({ tag: POML_NODE_TAGS.TEXT, content: token.text!, span: token.span });
+          break;
+
+        case 'selfClosingTag':
+          current.children.push({
+            tag: token.name!,
+            attributes: this.readAttributes(token),
+            content: '',
+            span: token.span
+          });
+          break;
+
+        case 'openTag':
+          stack.push({ token, children: [] });
+          break;
+
+        case 'closeTag':
+          this.closeElement(token, stack);
+          break;
+      }
+    }
+
+    // Close anything left open so the tree is still usable
+    while (stack.length > 1) {
+      this.popFrame(stack);
+    }
+
+    return {
+      components: this.finalizeChildren(root.children),
+      declaration,
+      errors: syntaxValidator.validateSyntax(poml).errors
+    };
+  }
+
+  /**
+   * Find the innermost element whose span contains the given character offset
+   */
+  public findComponentAtOffset(components: PomlComponent[], offset: number): PomlComponent | null {
+    for (const component of components) {
+      if (!component.span || component.tag.startsWith('#')) continue;
+      if (offset < component.span.start.offset || offset >= component.span.end.offset) continue;
+
+      if (Array.isArray(component.content)) {
+        const inner = this.findComponentAtOffset(component.content, offset);
+        if (inner) return inner;
+      }
+      return component;
+    }
+    return null;
+  }
+
+  /**
+   * Collect the plain text inside a component, ignoring markup
+   */
+  public getTextContent(component: PomlComponent): string {
+    if (typeof component.content === 'string') {
+      return component.tag === POML_NODE_TAGS.COMMENT ? '' : component.content;
+    }
+    return component.content
+      .map(child => this.getTextContent(child))
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  /**
+   * Collect every element with the given tag, depth first
+   */
+  public findComponents(components: PomlComponent[], tag: string): PomlComponent[] {
+    const found: PomlComponent[] = [];
+    for (const component of components) {
+      if (component.tag === tag) found.push(component);
+      if (Array.isArray(component.content)) {
+        found.push(...this.findComponents(component.content, tag));
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Close the element matching a closing tag, implicitly closing any elements nested inside it
+   */
+  private closeElement(token: PomlToken, stack: OpenFrame[]): void {
+    let matchIndex = -1;
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i].token?.name === token.name) {
+        matchIndex = i;
+        break;
+      }
+    }
+
+    // A closing tag with no matching opening tag is ignored
+    if (matchIndex === -1) return;
+
+    while (stack.length - 1 > matchIndex) {
+      this.popFrame(stack);
+    }
+    this.popFrame(stack, token.span);
+  }
+
+  /**
+   * Turn the top frame into a component and append it to its parent
+   */
+  private popFrame(stack: OpenFrame[], closeSpan?: SourceSpan): void {
+    const frame = stack.pop()!;
+    const token = frame.token!;
+    const parent = stack[stack.length - 1];
+    const lastChild = frame.children[frame.children.length - 1];
+    const end = closeSpan?.end ?? lastChild?.span?.end ?? token.span.end;
+
+    parent.children.push({
+      tag: token.name!,
+      attributes: this.readAttributes(token),
+      content: this.finalizeContent(frame.children),
+      span: { start: token.span.start, end }
+    });
+  }
+
+  /**
+   * Collapse children into a plain string when an element only holds text
+   */
+  private finalizeContent(children: PomlComponent[]): string | PomlComponent[] {
+    const isTextOnly = children.every(child => child.tag === POML_NODE_TAGS.TEXT);
+
+    if (isTextOnly) {
+      return this.dedent(children.map(child => child.content as string).join(''));
+    }
+
+    return this.finalizeChildren(children);
+  }
+
+  /**
+   * Drop whitespace-only text nodes and normalize the indentation of the rest
+   */
+  private finalizeChildren(children: PomlComponent[]): PomlComponent[] {
+    return children
+      .filter(child => child.tag !== POML_NODE_TAGS.TEXT || (child.content as string).trim())
+      .map(child => child.tag === POML_NODE_TAGS.TEXT
+        ? { ...child, content: this.dedent(child.content as string) }
+        : child
+      );
+  }
+
+  /**
+   * Remove the indentation the formatter adds around multi-line text content
+   */
+  private dedent(text: string): string {
+    const lines = text.split('\n');
+
+    while (lines.length > 0 && !lines[0].trim()) lines.shift();
+    while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+    if (lines.length === 0) return '';
+
+    // Text that starts right after the opening tag has no indentation on its first line
+    const startsOnOwnLine = /^[ \t]*\n/.test(text);
+    const measured = startsOnOwnLine ? lines : lines.slice(1);
+    const indents = measured
+      .filter(line => line.trim())
+      .map(line => line.length - line.trimStart().length);
+    const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+
+    return lines
+      .map((line, index) => {
+        if (index === 0 && !startsOnOwnLine) return line.trimStart();
+        const indent = line.length - line.trimStart().length;
+        return line.substring(Math.min(minIndent, indent));
+      })
+      .join('\n')
+      .trimEnd();
+  }
+
+  private readAttributes(token: PomlToken): Record<string, string> | undefined {
+    if (!token.attributes || token.attributes.length === 0) return undefined;
+
+    const attributes: Record<string, string> = {};
+    for (const attribute of token.attributes) {
+      attributes[attribute.name] = unescapeXml(attribute.value);
+    }
+    return attributes;
+  }
+}
+
+export const pomlReader = new PomlReader();
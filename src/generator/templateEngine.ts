@@ -3,15 +3,30 @@
  * Implements intelligent component mapping and nested structure generation
  */
 
-import type { DetectedSection, SectionType } from '../types';
+import type {
+  Dialogue,
+  DialogueSpeaker,
+  DetectedSection,
+  PomlComponent,
+  PomlTemplate,
+  PromptVariable,
+  SectionType,
+  TemplateValues
+} from '../types';
 import { PomlFormatter } from './pomlFormatter';
+import { templateLibrary } from './templateLibrary';
 import { escapeXml } from '../utils/helpers';
+import { POML_COMPONENTS, POML_NODE_TAGS } from '../utils/constants';
+import { variableDetector } from '../parser/variableDetector';
 
-export interface PomlComponent {
-  tag: string;
-  attributes?: Record<string, string>;
-  content: string | PomlComponent[];
-}
+export type { PomlComponent };
+
+// Message component for each side of a chat transcript
+const MESSAGE_TAGS: Record<DialogueSpeaker, string> = {
+  human: POML_COMPONENTS.HUMAN_MESSAGE,
+  ai: POML_COMPONENTS.AI_MESSAGE,
+  system: POML_COMPONENTS.SYSTEM_MESSAGE
+};
 
 export interface GenerationOptions {
   includeComments?: boolean;
@@ -19,6 +34,7 @@ export interface GenerationOptions {
   formatOutput?: boolean;
   rootElement?: string;
   includeMetadata?: boolean;
+  variables?: PromptVariable[]; // declared as <let>; defaults to the placeholders found in the sections
 }
 
 export interface GenerationResult {
@@ -64,10 +80,20 @@ export class TemplateEngine {
       const validSections = this.filterAndSortSections(sections, warnings);
       
       // Convert sections to POML components
-      const components = validSections.map(section => 
+      const sectionComponents = validSections.map(section => 
         this.sectionToComponent(section, { includeConfidence, includeComments })
       );
 
+      // Declare placeholders as variables and reference them, so the prompt stays parameterized
+      const variables = options.variables ??
+        variableDetector.detect(validSections.map(section => section.content).join('\n\n'));
+      const components = variables.length > 0
+        ? [
+          ...variables.map(variable => this.createVariableDeclaration(variable)),
+          ...sectionComponents.map(component => this.referenceVariables(component))
+        ]
+        : sectionComponents;
+
       // Create root component
       const rootComponent: PomlComponent = {
         tag: rootElement,
@@ -145,29 +171,29 @@ export class TemplateEngine {
   }
 
   /**
-   * Generate POML from a template structure
+   * Generate POML from a template, filling placeholders with the given values.
+   * Fails with an error result when a required component is left empty.
    */
   public async generateFromTemplate(
-    template: {
-      id: string;
-      structure: Array<{ type: SectionType; content: string; attributes?: Record<string, string> }>;
-    },
+    template: PomlTemplate,
+    values: TemplateValues = {},
     options: GenerationOptions = {}
   ): Promise<GenerationResult> {
-    // Convert template structure to detected sections
-    const sections: DetectedSection[] = template.structure.map((item, index) => ({
-      id: `template-${index}`,
-      type: item.type,
-      content: item.content,
-      confidence: 100, // Templates have full confidence
-      startIndex: 0,
-      endIndex: item.content.length,
-      metadata: {
-        fromTemplate: true,
-        templateId: template.id,
-        customAttributes: item.attributes
-      }
-    }));
+    const { sections, missing } = templateLibrary.fillTemplate(template, values);
+
+    if (missing.length > 0) {
+      const warnings = missing.map(component => `Required ${component.type} is empty: ${component.placeholder}`);
+      return {
+        poml: this.generateErrorPoml(`Template '${template.name}' has unfilled required components`),
+        components: [],
+        metadata: {
+          sectionsProcessed: 0,
+          averageConfidence: 0,
+          generationTime: 0,
+          warnings
+        }
+      };
+    }
 
     return this.generatePoml(sections, options);
   }
@@ -178,14 +204,43 @@ export class TemplateEngine {
   private initializeComponentMappings(): Record<SectionType, (section: DetectedSection) => PomlComponent> {
     return {
       role: (section) => this.createRoleComponent(section),
+      context: (section) => this.createCaptionedComponent(section, 'Context'),
+      audience: (section) => this.createCaptionedComponent(section, 'Audience'),
       task: (section) => this.createTaskComponent(section),
+      inputData: (section) => this.createInputDataComponent(section),
       constraints: (section) => this.createConstraintsComponent(section),
+      style: (section) => this.createCaptionedComponent(section, 'Tone and Style'),
       examples: (section) => this.createExamplesComponent(section),
       outputFormat: (section) => this.createOutputFormatComponent(section),
       unknown: (section) => this.createGenericComponent(section)
     };
   }
 
+  /**
+   * Create a variable declaration, left empty for the user to fill
+   */
+  private createVariableDeclaration(variable: PromptVariable): PomlComponent {
+    return {
+      tag: 'let',
+      attributes: { name: variable.name },
+      content: ''
+    };
+  }
+
+  /**
+   * Replace the placeholders in a component's text with {{ name }} references
+   */
+  private referenceVariables(component: PomlComponent): PomlComponent {
+    if (component.tag === POML_NODE_TAGS.COMMENT) return component;
+
+    return {
+      ...component,
+      content: typeof component.content === 'string'
+        ? variableDetector.parameterize(component.content)
+        : component.content.map(child => this.referenceVariables(child))
+    };
+  }
+
   /**
    * Create role component
    */
@@ -206,6 +261,28 @@ export class TemplateEngine {
     };
   }
 
+  /**
+   * Create a captioned paragraph component for context, audience and style sections
+   */
+  private createCaptionedComponent(section: DetectedSection, caption: string): PomlComponent {
+    return {
+      tag: 'cp',
+      attributes: { caption },
+      content: this.cleanContent(section.content)
+    };
+  }
+
+  /**
+   * Create input data component, preserving the data's whitespace
+   */
+  private createInputDataComponent(section: DetectedSection): PomlComponent {
+    return {
+      tag: 'cp',
+      attributes: { caption: 'Input Data', whiteSpace: 'pre' },
+      content: section.content.replace(/^\n+|\s+$/g, '')
+    };
+  }
+
   /**
    * Create constraints component
    */
@@ -240,6 +317,10 @@ export class TemplateEngine {
    * Create examples component
    */
   private createExamplesComponent(section: DetectedSection): PomlComponent {
+    if (section.dialogue) {
+      return this.createDialogueComponent(section.dialogue);
+    }
+
     const content = this.cleanContent(section.content);
     
     // Try to detect input/output patterns
@@ -268,6 +349,41 @@ export class TemplateEngine {
     }
   }
 
+  /**
+   * Create examples from a transcript: a chat becomes one example of messages, Q/A pairs become
+   * one example each; turns keep their order
+   */
+  private createDialogueComponent(dialogue: Dialogue): PomlComponent {
+    if (dialogue.kind === 'chat') {
+      return {
+        tag: 'examples',
+        content: [{
+          tag: 'example',
+          content: dialogue.turns.map(turn => ({
+            tag: MESSAGE_TAGS[turn.speaker],
+            content: turn.content
+          }))
+        }]
+      };
+    }
+
+    // Each question opens a new example; an answer joins the question before it
+    const examples: PomlComponent[][] = [];
+    dialogue.turns.forEach(turn => {
+      const last = examples[examples.length - 1];
+      if (turn.speaker === 'ai' && last && last.length === 1 && last[0].tag === POML_COMPONENTS.QUESTION) {
+        last.push({ tag: 'output', content: turn.content });
+      } else {
+        examples.push([{ tag: turn.speaker === 'ai' ? 'output' : POML_COMPONENTS.QUESTION, content: turn.content }]);
+      }
+    });
+
+    return {
+      tag: 'examples',
+      content: examples.map(content => ({ tag: 'example', content }))
+    };
+  }
+
   /**
    * Create output format component
    */
@@ -318,14 +434,18 @@ export class TemplateEngine {
       return true;
     });
 
-    // Sort by optimal order: role, task, constraints, examples, outputFormat, unknown
+    // Sort by optimal order: role, context, audience, task, inputData, constraints, style, examples, outputFormat, unknown
     const order: Record<SectionType, number> = {
       role: 1,
-      task: 2,
-      constraints: 3,
-      examples: 4,
-      outputFormat: 5,
-      unknown: 6
+      context: 2,
+      audience: 3,
+      task: 4,
+      inputData: 5,
+      constraints: 6,
+      style: 7,
+      examples: 8,
+      outputFormat: 9,
+      unknown: 10
     };
 
     return filtered.sort((a, b) => {
@@ -469,8 +589,12 @@ export class TemplateEngine {
       averageProcessingTime: 0,
       componentTypeDistribution: {
         role: 0,
+        context: 0,
+        audience: 0,
         task: 0,
+        inputData: 0,
         constraints: 0,
+        style: 0,
         examples: 0,
         outputFormat: 0,
         unknown: 0
@@ -0,0 +1,469 @@
+/**
+ * Template Library - Catalog of reusable PomlTemplates and the placeholder fill-in flow
+ */
+
+import type { DetectedSection, PomlComponent, PomlTemplate, TemplateComponent, TemplateValues } from '../types';
+import { pomlReader } from './pomlReader';
+import { generateId } from '../utils/helpers';
+
+export interface TemplateCategory {
+  id: string;
+  label: string;
+}
+
+export interface TemplateFillResult {
+  sections: DetectedSection[];
+  missing: TemplateComponent[]; // required components left empty or with slots still unfilled
+}
+
+export type TemplateInfo = Pick<PomlTemplate, 'name'> & Partial<Pick<PomlTemplate, 'description' | 'useCase' | 'category'>>;
+
+export interface TemplatePack {
+  format: typeof TEMPLATE_PACK_FORMAT;
+  version: number;
+  exportedAt: string;
+  templates: PomlTemplate[];
+}
+
+export const TEMPLATE_PACK_FORMAT = 'poml-studio-template-pack';
+const TEMPLATE_PACK_VERSION = 1;
+
+const TEMPLATE_COMPONENT_TYPES: TemplateComponent['type'][] = [
+  'role', 'context', 'audience', 'task', 'inputData', 'constraints', 'style', 'examples', 'outputFormat'
+];
+
+const PLACEHOLDER_PROMPTS: Record<TemplateComponent['type'], string> = {
+  role: 'Who should the model be?',
+  context: 'What background does the model need?',
+  audience: 'Who is the response for?',
+  task: 'What should the model do?',
+  inputData: 'Text or data to work on',
+  constraints: 'Rules the response must follow',
+  style: 'What tone and style should it use?',
+  examples: 'Example inputs and expected outputs',
+  outputFormat: 'How should the response be formatted?'
+};
+
+// Speaker labels written for message and question components, so transcripts read back as transcripts;
+// an <output> answering a <qa> is written as 'A'
+const TURN_LABELS: Record<string, string> = {
+  'human-msg': 'User',
+  'ai-msg': 'Assistant',
+  'system-msg': 'System',
+  qa: 'Q'
+};
+
+// Slots left in content for the user to fill, e.g. [topic], <INSERT TEXT>. A {{audience}} reference is a
+// variable the generated POML declares with <let>, so it is not a slot
+const SLOT_PATTERN = /\[([A-Za-z][\w .-]{0,40})\]|<\s*(INSERT[\w .-]*)\s*>/g;
+
+export const TEMPLATE_CATEGORIES: TemplateCategory[] = [
+  { id: 'general', label: 'General' },
+  { id: 'analysis', label: 'Analysis' },
+  { id: 'creative-writing', label: 'Creative Writing' },
+  { id: 'code-review', label: 'Code Review' },
+  { id: 'extraction', label: 'Extraction' },
+  { id: 'classification', label: 'Classification' },
+  { id: 'summarization', label: 'Summarization' },
+  { id: 'custom', label: 'My Templates' }
+];
+
+export const BUILT_IN_TEMPLATES: PomlTemplate[] = [
+  {
+    id: 'basic-assistant',
+    name: 'Basic Assistant',
+    description: 'Simple role-task structure for general assistance',
+    useCase: 'Answering general questions',
+    category: 'general',
+    structure: [
+      { type: 'role', placeholder: 'Who should the model be?', required: true, defaultContent: 'You are a helpful AI assistant.' },
+      { type: 'task', placeholder: 'What should the model help with?', required: true, defaultContent: 'Provide helpful and accurate responses to user questions.' },
+      { type: 'constraints', placeholder: 'Rules the response must follow', required: false, defaultContent: 'Be concise and clear in your responses. Always be respectful and professional.' }
+    ]
+  },
+  {
+    id: 'data-analysis',
+    name: 'Data Analysis',
+    description: 'Analyze a dataset or report and surface key findings',
+    useCase: 'Finding trends, anomalies and insights in data',
+    category: 'analysis',
+    structure: [
+      { type: 'role', placeholder: 'Analyst persona and domain', required: true, defaultContent: 'You are a senior data analyst who explains findings to non-technical stakeholders.' },
+      { type: 'task', placeholder: 'What should be analyzed, and which questions should be answered?', required: true },
+      { type: 'constraints', placeholder: 'Analysis rules', required: false, defaultContent: '- Base every claim on the provided data\n- Call out anomalies and data quality issues\n- Quantify findings where possible' },
+      { type: 'outputFormat', placeholder: 'How should findings be presented?', required: false, defaultContent: 'Markdown with a short summary followed by a bulleted list of findings.' }
+    ]
+  },
+  {
+    id: 'content-writer',
+    name: 'Content Writer',
+    description: 'Create engaging long-form content on a given topic',
+    useCase: 'Blog posts, articles and marketing copy',
+    category: 'creative-writing',
+    structure: [
+      { type: 'role', placeholder: 'Writer persona', required: true, defaultContent: 'You are a professional content writer with expertise in creating engaging and informative content.' },
+      { type: 'task', placeholder: 'Topic, audience and goal of the piece', required: true },
+      { type: 'constraints', placeholder: 'Style and tone requirements', required: false, defaultContent: 'Ensure content is original, well-researched, and appropriate for the target audience. Follow SEO best practices when applicable.' },
+      { type: 'examples', placeholder: 'Input: ...\nOutput: ...', required: false, defaultContent: 'Input: Blog post about sustainable living\nOutput: Well-structured article with introduction, main points, and conclusion' }
+    ]
+  },
+  {
+    id: 'story-writer',
+    name: 'Short Story',
+    description: 'Write a short story from a premise',
+    useCase: 'Fiction, narrative exercises and creative prompts',
+    category: 'creative-writing',
+    structure: [
+      { type: 'role', placeholder: 'Author persona', required: true, defaultContent: 'You are an award-winning fiction author known for vivid characters and tight pacing.' },
+      { type: 'task', placeholder: 'Premise, genre and main characters', required: true },
+      { type: 'constraints', placeholder: 'Length, point of view, tone', required: false, defaultContent: '- Keep the story under 1000 words\n- Show, don\'t tell\n- End with a satisfying resolution' }
+    ]
+  },
+  {
+    id: 'code-reviewer',
+    name: 'Code Reviewer',
+    description: 'Review code and give constructive, actionable feedback',
+    useCase: 'Pull request and code quality reviews',
+    category: 'code-review',
+    structure: [
+      { type: 'role', placeholder: 'Reviewer expertise', required: true, defaultContent: 'You are an experienced software engineer and code reviewer.' },
+      { type: 'task', placeholder: 'What code is being reviewed and what matters most?', required: true, defaultContent: 'Review the provided code and provide constructive feedback.' },
+      { type: 'constraints', placeholder: 'Review focus areas', required: false, defaultContent: '- Focus on correctness, security and performance first\n- Be specific and actionable\n- Suggest concrete code changes where possible' },
+      { type: 'outputFormat', placeholder: 'Feedback layout', required: false, defaultContent: 'Provide feedback in markdown format with clear sections for different types of issues.' }
+    ]
+  },
+  {
+    id: 'entity-extraction',
+    name: 'Entity Extraction',
+    description: 'Pull structured fields out of unstructured text',
+    useCase: 'Turning documents, emails or tickets into records',
+    category: 'extraction',
+    structure: [
+      { type: 'role', placeholder: 'Extractor persona', required: true, defaultContent: 'You are a precise information extraction system.' },
+      { type: 'task', placeholder: 'Which fields should be extracted, and from what kind of text?', required: true },
+      { type: 'constraints', placeholder: 'Extraction rules', required: false, defaultContent: '- Only extract information that is explicitly stated\n- Use null for fields that are not present' },
+      { type: 'examples', placeholder: 'Input: ...\nOutput: ...', required: false },
+      { type: 'outputFormat', placeholder: 'Output schema', required: true, defaultContent: 'Respond with a JSON object containing one key per extracted field.' }
+    ]
+  },
+  {
+    id: 'text-classification',
+    name: 'Text Classification',
+    description: 'Assign one label from a fixed set to each input',
+    useCase: 'Sentiment, intent, topic or priority labelling',
+    category: 'classification',
+    structure: [
+      { type: 'role', placeholder: 'Classifier persona', required: true, defaultContent: 'You are a consistent and careful text classifier.' },
+      { type: 'task', placeholder: 'What is being classified, and what are the allowed labels?', required: true },
+      { type: 'constraints', placeholder: 'Labelling rules', required: false, defaultContent: '- Choose exactly one label from the allowed set\n- If the input is ambiguous, pick the closest label' },
+      { type: 'examples', placeholder: 'Input: ...\nOutput: ...', required: false },
+      { type: 'outputFormat', placeholder: 'Label format', required: false, defaultContent: 'Respond with the label only.' }
+    ]
+  },
+  {
+    id: 'document-summary',
+    name: 'Document Summary',
+    description: 'Condense a document into its key points',
+    useCase: 'Meeting notes, reports, articles and papers',
+    category: 'summarization',
+    structure: [
+      { type: 'role', placeholder: 'Summarizer persona', required: true, defaultContent: 'You are an expert editor who writes clear, faithful summaries.' },
+      { type: 'task', placeholder: 'What should be summarized, and for whom?', required: true },
+      { type: 'constraints', placeholder: 'Length and fidelity rules', required: false, defaultContent: '- Keep the summary under 150 words\n- Do not add information that is not in the source' },
+      { type: 'outputFormat', placeholder: 'Summary layout', required: false, defaultContent: 'A one-sentence overview followed by 3-5 bullet points.' }
+    ]
+  }
+];
+
+export class TemplateLibrary {
+  private templates = new Map<string, PomlTemplate>();
+
+  constructor(templates: PomlTemplate[] = BUILT_IN_TEMPLATES) {
+    templates.forEach(template => this.registerTemplate(template));
+  }
+
+  /**
+   * Register a template, replacing any existing template with the same id
+   */
+  public registerTemplate(template: PomlTemplate): void {
+    this.templates.set(template.id, template);
+  }
+
+  /**
+   * Remove a template from the library
+   */
+  public unregisterTemplate(id: string): boolean {
+    return this.templates.delete(id);
+  }
+
+  /**
+   * List templates, optionally limited to one category
+   */
+  public getTemplates(category?: string): PomlTemplate[] {
+    const all = Array.from(this.templates.values());
+    return category ? all.filter(template => template.category === category) : all;
+  }
+
+  public getTemplate(id: string): PomlTemplate | undefined {
+    return this.templates.get(id);
+  }
+
+  /**
+   * Categories that have at least one of the given templates, in catalog order
+   */
+  public getCategories(templates: PomlTemplate[] = this.getTemplates()): TemplateCategory[] {
+    const used = new Set(templates.map(template => template.category));
+    const known = TEMPLATE_CATEGORIES.filter(category => used.has(category.id));
+    const custom = [...used]
+      .filter(id => !TEMPLATE_CATEGORIES.some(category => category.id === id))
+      .map(id => ({ id, label: id }));
+    return [...known, ...custom];
+  }
+
+  /**
+   * Content a component starts with before the user edits it
+   */
+  public getInitialValues(template: PomlTemplate): TemplateValues {
+    const values: TemplateValues = {};
+    template.structure.forEach((component, index) => {
+      values[index] = component.defaultContent || '';
+    });
+    return values;
+  }
+
+  /**
+   * Resolve placeholders into sections. Content still holding a slot marker such as [topic] counts as
+   * empty, and empty optional components are dropped; {{topic}} variable references are kept
+   */
+  public fillTemplate(template: PomlTemplate, values: TemplateValues = {}): TemplateFillResult {
+    const sections: DetectedSection[] = [];
+    const missing: TemplateComponent[] = [];
+
+    template.structure.forEach((component, index) => {
+      const content = (values[index] ?? component.defaultContent ?? '').trim();
+
+      if (!content || content.search(SLOT_PATTERN) >= 0) {
+        if (component.required) missing.push(component);
+        return;
+      }
+
+      sections.push({
+        id: `template-${index}`,
+        type: component.type,
+        content,
+        confidence: 100, // Templates have full confidence
+        startIndex: 0,
+        endIndex: content.length,
+        metadata: {
+          fromTemplate: true,
+          templateId: template.id
+        }
+      });
+    });
+
+    return { sections, missing };
+  }
+
+  /**
+   * Turn detected sections into a reusable template, inferring placeholders from their content.
+   * Unclassified sections have no template component type and are left out.
+   */
+  public createTemplate(sections: DetectedSection[], info: TemplateInfo): PomlTemplate {
+    const structure = sections
+      .filter(section => TEMPLATE_COMPONENT_TYPES.includes(section.type as TemplateComponent['type']) && section.content.trim())
+      .map(section => this.inferComponent(section.type as TemplateComponent['type'], section.content.trim()));
+
+    return {
+      id: `custom-${generateId()}`,
+      name: info.name.trim(),
+      description: info.description?.trim() || `Saved from ${structure.length} prompt components`,
+      useCase: info.useCase?.trim() || info.description?.trim() || info.name.trim(),
+      category: info.category || 'custom',
+      structure
+    };
+  }
+
+  /**
+   * Turn a POML document into a reusable template
+   */
+  public createTemplateFromPoml(poml: string, info: TemplateInfo): PomlTemplate {
+    const { components } = pomlReader.parse(poml, { preserveComments: false });
+    const root = components.find(component => Array.isArray(component.content));
+    const children = root && Array.isArray(root.content) ? root.content : components;
+
+    const sections = children
+      .map((component, index): DetectedSection | null => {
+        const type = this.sectionTypeOf(component);
+        if (!type) return null;
+
+        const content = type === 'examples'
+          ? this.examplesText(component)
+          : this.blockText(component);
+
+        return { id: `poml-${index}`, type, content, confidence: 100, startIndex: 0, endIndex: content.length };
+      })
+      .filter((section): section is DetectedSection => section !== null);
+
+    return this.createTemplate(sections, info);
+  }
+
+  /**
+   * Serialize templates into a shareable JSON template pack
+   */
+  public serializeTemplatePack(templates: PomlTemplate[]): string {
+    const pack: TemplatePack = {
+      format: TEMPLATE_PACK_FORMAT,
+      version: TEMPLATE_PACK_VERSION,
+      exportedAt: new Date().toISOString(),
+      templates
+    };
+    return JSON.stringify(pack, null, 2);
+  }
+
+  /**
+   * Read templates from a JSON template pack (or a bare array of templates). Templates with the id
+   * of a library template get a new id
+   */
+  public parseTemplatePack(json: string): PomlTemplate[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Template pack is not valid JSON');
+    }
+
+    const pack = data as Partial<TemplatePack>;
+    const templates: unknown = Array.isArray(data) ? data : pack.templates;
+
+    if (!Array.isArray(data) && pack.format !== TEMPLATE_PACK_FORMAT) {
+      throw new Error('File is not a POML Studio template pack');
+    }
+    if (!Array.isArray(data) && (pack.version ?? 0) > TEMPLATE_PACK_VERSION) {
+      throw new Error(`Template pack version ${pack.version} is not supported`);
+    }
+    if (!Array.isArray(templates)) {
+      throw new Error('Template pack has no templates');
+    }
+
+    return templates.map((template, index) => {
+      if (!this.isTemplate(template)) {
+        throw new Error(`Template ${index + 1} in the pack is malformed`);
+      }
+      // A template may not take the place of a library template
+      return this.templates.has(template.id) ? { ...template, id: `custom-${generateId()}` } : template;
+    });
+  }
+
+  private inferComponent(type: TemplateComponent['type'], content: string): TemplateComponent {
+    const slots = [...content.matchAll(SLOT_PATTERN)].map(match => (match[1] || match[2]).trim());
+    const uniqueSlots = [...new Set(slots)];
+
+    let placeholder: string;
+    if (uniqueSlots.length > 0) {
+      placeholder = `Fill in: ${uniqueSlots.join(', ')}`;
+    } else {
+      const firstLine = content.split('\n')[0];
+      const example = firstLine.length > 60 ? `${firstLine.substring(0, 57)}...` : firstLine;
+      placeholder = `${PLACEHOLDER_PROMPTS[type]} (e.g. "${example}")`;
+    }
+
+    return {
+      type,
+      placeholder,
+      required: type === 'role' || type === 'task' || uniqueSlots.length > 0,
+      defaultContent: content
+    };
+  }
+
+  private sectionTypeOf(component: PomlComponent): TemplateComponent['type'] | null {
+    switch (component.tag) {
+      case 'role':
+      case 'task':
+      case 'constraints':
+      case 'examples':
+        return component.tag;
+      case 'example':
+        return 'examples';
+      case 'output-format':
+        return 'outputFormat';
+      case 'cp':
+        return this.captionTypeOf(component.attributes?.caption || '');
+      default:
+        return null;
+    }
+  }
+
+  private captionTypeOf(caption: string): TemplateComponent['type'] | null {
+    if (/constraint|rule|requirement/i.test(caption)) return 'constraints';
+    if (/context|background/i.test(caption)) return 'context';
+    if (/audience/i.test(caption)) return 'audience';
+    if (/tone|style/i.test(caption)) return 'style';
+    if (/input|data/i.test(caption)) return 'inputData';
+    return null;
+  }
+
+  /**
+   * Plain text for a block, writing list items as "- item" lines
+   */
+  private blockText(component: PomlComponent): string {
+    const items = pomlReader.findComponents([component], 'item');
+    if (items.length > 0) {
+      return items.map(item => `- ${pomlReader.getTextContent(item).trim()}`).join('\n');
+    }
+    return pomlReader.getTextContent(component).trim();
+  }
+
+  /**
+   * Plain text for examples, written as "Input: ... / Output: ..." pairs or as labelled turns
+   */
+  private examplesText(component: PomlComponent): string {
+    const examples = component.tag === 'example' ? [component] : pomlReader.findComponents([component], 'example');
+    if (examples.length === 0) return pomlReader.getTextContent(component).trim();
+
+    return examples
+      .map(example => {
+        const turns = this.turnsText(example);
+        if (turns) return turns;
+
+        const input = pomlReader.findComponents([example], 'input')[0];
+        const output = pomlReader.findComponents([example], 'output')[0];
+        return input || output
+          ? `Input: ${input ? pomlReader.getTextContent(input).trim() : ''}\nOutput: ${output ? pomlReader.getTextContent(output).trim() : ''}`
+          : pomlReader.getTextContent(example).trim();
+      })
+      .join('\n\n');
+  }
+
+  /**
+   * Labelled turns of an example made of messages or questions, or null when it has none
+   */
+  private turnsText(example: PomlComponent): string | null {
+    const children = Array.isArray(example.content) ? example.content : [];
+    if (!children.some(child => child.tag in TURN_LABELS)) return null;
+
+    return children
+      .filter(child => child.tag in TURN_LABELS || child.tag === 'output')
+      .map(child => `${TURN_LABELS[child.tag] ?? 'A'}: ${pomlReader.getTextContent(child).trim()}`)
+      .join('\n');
+  }
+
+  private isTemplate(value: unknown): value is PomlTemplate {
+    const template = value as PomlTemplate;
+    return !!template &&
+      typeof template.id === 'string' &&
+      typeof template.name === 'string' &&
+      typeof template.description === 'string' &&
+      typeof template.useCase === 'string' &&
+      typeof template.category === 'string' &&
+      Array.isArray(template.structure) &&
+      template.structure.every(component =>
+        !!component &&
+        TEMPLATE_COMPONENT_TYPES.includes(component.type) &&
+        typeof component.placeholder === 'string' &&
+        typeof component.required === 'boolean' &&
+        (component.defaultContent === undefined || typeof component.defaultContent === 'string')
+      );
+  }
+}
+
+export const templateLibrary = new TemplateLibrary();
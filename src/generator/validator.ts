@@ -1,18 +1,15 @@
 // POML validator for ensuring well-formed XML
-// This module will be implemented in Phase 2
+// Delegates to the linter's syntax validator so generation and linting agree
+
+import type { ValidationResult } from '../types';
+import { syntaxValidator } from '../linter/syntaxValidator';
 
 export interface PomlValidator {
-  validate(poml: string): any;
+  validate(poml: string): ValidationResult;
 }
 
-// Placeholder implementation
 export const pomlValidator: PomlValidator = {
   validate(poml: string) {
-    console.log('Validating POML:', poml.substring(0, 50) + '...');
-    return {
-      isValid: true,
-      errors: [],
-      warnings: [],
-    };
+    return syntaxValidator.validateSyntax(poml);
   },
 };
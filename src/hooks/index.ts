@@ -1,3 +1,6 @@
 export * from './usePoml';
 export * from './useParser';
 export * from './useGenerator';
+export * from './useLinter';
+export * from './useProjectPersistence';
+export * from './useUndoShortcuts';
@@ -5,7 +5,9 @@
 import { useState, useCallback } from 'react';
 import { usePomlStore } from './usePoml';
 import { TemplateEngine, type GenerationOptions, type GenerationResult } from '../generator/templateEngine';
-import type { DetectedSection } from '../types';
+import { templateLibrary } from '../generator/templateLibrary';
+import { analysisClient } from '../workers';
+import type { DetectedSection, PomlTemplate, TemplateValues } from '../types';
 
 interface UseGeneratorState {
   isGenerating: boolean;
@@ -27,11 +29,11 @@ export const useGenerator = (options: UseGeneratorOptions = {}) => {
     error: null
   });
 
-  const { setGeneratedPoml } = usePomlStore();
+  const { setGeneratedPoml, recordVersion, customTemplates } = usePomlStore();
   const templateEngine = new TemplateEngine();
 
   /**
-   * Generate POML from detected sections
+   * Generate POML from detected sections, in the analysis worker
    */
   const generatePoml = useCallback(async (
     sections: DetectedSection[],
@@ -41,7 +43,7 @@ export const useGenerator = (options: UseGeneratorOptions = {}) => {
 
     try {
       const options = { ...defaultOptions, ...generationOptions };
-      const result = await templateEngine.generatePoml(sections, options);
+      const result = await analysisClient.generate(sections, options);
 
       setState(prev => ({ 
         ...prev, 
@@ -50,9 +52,10 @@ export const useGenerator = (options: UseGeneratorOptions = {}) => {
         error: null 
       }));
 
-      // Auto-update the generated POML in the store
+      // Auto-update the generated POML in the store and snapshot it in the history
       if (autoSave && result.poml && !result.poml.includes('<error>')) {
         setGeneratedPoml(result.poml);
+        recordVersion('Generated');
       }
 
       return result;
@@ -78,38 +81,34 @@ export const useGenerator = (options: UseGeneratorOptions = {}) => {
         }
       };
     }
-  }, [templateEngine, defaultOptions, autoSave, setGeneratedPoml]);
+  }, [defaultOptions, autoSave, setGeneratedPoml, recordVersion]);
 
   /**
    * Generate POML from a predefined template
    */
   const generateFromTemplate = useCallback(async (
-    template: {
-      id: string;
-      structure: Array<{ 
-        type: 'role' | 'task' | 'constraints' | 'examples' | 'outputFormat' | 'unknown';
-        content: string; 
-        attributes?: Record<string, string>; 
-      }>;
-    },
+    template: PomlTemplate,
+    values: TemplateValues = {},
     generationOptions?: GenerationOptions
   ): Promise<GenerationResult> => {
     setState(prev => ({ ...prev, isGenerating: true, error: null }));
 
     try {
       const options = { ...defaultOptions, ...generationOptions };
-      const result = await templateEngine.generateFromTemplate(template, options);
+      const result = await templateEngine.generateFromTemplate(template, values, options);
+      const failed = result.components.length === 0 && result.metadata.warnings.length > 0;
 
       setState(prev => ({ 
         ...prev, 
         isGenerating: false, 
         lastResult: result,
-        error: null 
+        error: failed ? result.metadata.warnings.join('\n') : null
       }));
 
-      // Auto-update the generated POML in the store
+      // Auto-update the generated POML in the store and snapshot it in the history
       if (autoSave && result.poml && !result.poml.includes('<error>')) {
         setGeneratedPoml(result.poml);
+        recordVersion(`Template: ${template.name}`);
       }
 
       return result;
@@ -134,7 +133,7 @@ export const useGenerator = (options: UseGeneratorOptions = {}) => {
         }
       };
     }
-  }, [templateEngine, defaultOptions, autoSave, setGeneratedPoml]);
+  }, [templateEngine, defaultOptions, autoSave, setGeneratedPoml, recordVersion]);
 
   /**
    * Convert a single section to POML component (useful for previews)
@@ -158,44 +157,21 @@ export const useGenerator = (options: UseGeneratorOptions = {}) => {
   }, [templateEngine]);
 
   /**
-   * Get predefined templates for common use cases
+   * Get built-in and saved templates, optionally limited to one category
    */
-  const getTemplates = useCallback(() => {
-    return [
-      {
-        id: 'basic-assistant',
-        name: 'Basic Assistant',
-        description: 'Simple role-task structure for general assistance',
-        structure: [
-          { type: 'role' as const, content: 'You are a helpful AI assistant.' },
-          { type: 'task' as const, content: 'Provide helpful and accurate responses to user questions.' },
-          { type: 'constraints' as const, content: 'Be concise and clear in your responses. Always be respectful and professional.' }
-        ]
-      },
-      {
-        id: 'code-reviewer',
-        name: 'Code Reviewer',
-        description: 'Template for code review tasks',
-        structure: [
-          { type: 'role' as const, content: 'You are an experienced software engineer and code reviewer.' },
-          { type: 'task' as const, content: 'Review the provided code and provide constructive feedback.' },
-          { type: 'constraints' as const, content: 'Focus on code quality, best practices, potential bugs, and performance improvements. Be specific and actionable in your suggestions.' },
-          { type: 'outputFormat' as const, content: 'Provide feedback in markdown format with clear sections for different types of issues.' }
-        ]
-      },
-      {
-        id: 'content-writer',
-        name: 'Content Writer',
-        description: 'Template for content creation tasks',
-        structure: [
-          { type: 'role' as const, content: 'You are a professional content writer with expertise in creating engaging and informative content.' },
-          { type: 'task' as const, content: 'Create high-quality content based on the given topic and requirements.' },
-          { type: 'constraints' as const, content: 'Ensure content is original, well-researched, and appropriate for the target audience. Follow SEO best practices when applicable.' },
-          { type: 'examples' as const, content: 'Input: Blog post about sustainable living\nOutput: Well-structured article with introduction, main points, and conclusion' }
-        ]
-      }
-    ];
-  }, []);
+  const getTemplates = useCallback((category?: string) => {
+    const saved = category
+      ? customTemplates.filter(template => template.category === category)
+      : customTemplates;
+    return [...templateLibrary.getTemplates(category), ...saved];
+  }, [customTemplates]);
+
+  /**
+   * Get the categories that have at least one template
+   */
+  const getTemplateCategories = useCallback(() => {
+    return templateLibrary.getCategories(getTemplates());
+  }, [getTemplates]);
 
   /**
    * Clear generation state
@@ -226,6 +202,7 @@ export const useGenerator = (options: UseGeneratorOptions = {}) => {
     generateFromTemplate,
     previewSection,
     getTemplates,
+    getTemplateCategories,
     clearState,
     getStats,
     
@@ -0,0 +1,53 @@
+/**
+ * Linter Hook - Validates the generated POML and keeps the store's validation state in sync
+ */
+
+import { useEffect, useMemo } from 'react';
+import { bestPracticesChecker, contentValidator, syntaxValidator } from '../linter';
+import type { BestPracticeSuggestion, ValidationResult } from '../types';
+import { usePomlStore } from './usePoml';
+
+export interface LinterResult extends ValidationResult {
+  suggestions: BestPracticeSuggestion[];
+}
+
+const EMPTY_RESULT: LinterResult = { isValid: true, errors: [], warnings: [], suggestions: [] };
+
+/**
+ * Hook that lints the current POML whenever it changes
+ */
+export const useLinter = (): LinterResult => {
+  const {
+    inputText,
+    generatedPoml,
+    settings,
+    setValidationErrors,
+    setIsValid
+  } = usePomlStore();
+
+  const result = useMemo(() => {
+    if (!settings.enableLinting) return EMPTY_RESULT;
+
+    const syntax = syntaxValidator.validateSyntax(generatedPoml);
+    const content = contentValidator.validateContent(generatedPoml, {
+      ruleOverrides: settings.lintRules
+    });
+    const { suggestions } = bestPracticesChecker.checkBestPractices(generatedPoml, inputText);
+
+    return {
+      isValid: syntax.isValid && content.isValid,
+      errors: [...syntax.errors, ...content.errors],
+      warnings: [...syntax.warnings, ...content.warnings],
+      suggestions
+    };
+  }, [generatedPoml, inputText, settings.enableLinting, settings.lintRules]);
+
+  useEffect(() => {
+    setValidationErrors([...result.errors, ...result.warnings]);
+    setIsValid(result.isValid);
+  }, [result, setValidationErrors, setIsValid]);
+
+  return result;
+};
+
+export default useLinter;
@@ -3,14 +3,16 @@
  * Provides easy-to-use functions for text analysis and section detection
  */
 
-import { useCallback, useState } from 'react';
-import { TextAnalyzer, SectionExtractor } from '../parser';
-import type { DetectedSection, AnalysisResult, SectionType } from '../types';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { TextAnalyzer, SectionExtractor, sectionReconciler } from '../parser';
+import type { DetectedSection, AnalysisResult, ParsingConfig, SectionType } from '../types';
+import { analysisClient, type AnalysisStats } from '../workers';
 import { usePomlStore } from './usePoml';
 
 export interface UseParserReturn {
   // State
   isAnalyzing: boolean;
+  progress: number; // 0-100 progress of the running analysis
   lastAnalysis: AnalysisResult | null;
   analysisStats: {
     totalAnalyses: number;
@@ -19,58 +21,107 @@ export interface UseParserReturn {
   };
 
   // Actions
-  analyzeText: (text: string) => Promise<DetectedSection[]>;
+  analyzeText: (text: string) => Promise<DetectedSection[]>; // cancels the analysis still running, if any
   reanalyzeSection: (section: DetectedSection, feedback?: { correctedType: SectionType; wasCorrect: boolean }) => Promise<DetectedSection>;
   extractSectionsByType: (text: string, type: SectionType) => Promise<DetectedSection[]>;
   getAnalysisStats: () => void;
 }
 
+/**
+ * Parsing config from the user's settings, pattern packs and learned feedback
+ */
+const useParsingConfig = (): ParsingConfig => {
+  const { settings, learnedState } = usePomlStore();
+  const { parsingSensitivity, minConfidence, typeThresholds, enableCustomPatterns, patternPacks } = settings;
+
+  return useMemo(
+    () => ({ sensitivity: parsingSensitivity, minConfidence, typeThresholds, enableCustomPatterns, patternPacks, learnedState }),
+    [parsingSensitivity, minConfidence, typeThresholds, enableCustomPatterns, patternPacks, learnedState]
+  );
+};
+
 /**
  * Hook for text analysis and parsing functionality
  */
 export const useParser = (): UseParserReturn => {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [progress, setProgress] = useState(0);
   const [lastAnalysis, setLastAnalysis] = useState<AnalysisResult | null>(null);
   const [analysisStats, setAnalysisStats] = useState({
     totalAnalyses: 0,
     averageProcessingTime: 0,
     averageConfidence: 0
   });
+  const runRef = useRef<AbortController | null>(null);
+  const workerStatsRef = useRef<AnalysisStats | null>(null);
+  const analyzedConfigRef = useRef<ParsingConfig | null>(null);
 
   const { 
     setDetectedSections, 
+    setAnalyzedSections,
     setProcessing, 
     setParsingErrors,
-    inputText 
+    setLearnedState,
+    inputText
   } = usePomlStore();
 
-  // Initialize analyzers
-  const textAnalyzer = new TextAnalyzer();
-  const sectionExtractor = new SectionExtractor();
+  // Full analyses run in the analysis worker; section re-analysis and extraction stay on this thread.
+  // Their config follows the store
+  const parsingConfig = useParsingConfig();
+  const textAnalyzer = useMemo(() => new TextAnalyzer(), []);
+  const sectionExtractor = useMemo(() => new SectionExtractor(), []);
+
+  useEffect(() => {
+    analysisClient.configure(parsingConfig);
+    textAnalyzer.configure(parsingConfig);
+    sectionExtractor.configure(parsingConfig);
+  }, [textAnalyzer, sectionExtractor, parsingConfig]);
+
+  // Cancel the running analysis when the component goes away
+  useEffect(() => () => runRef.current?.abort(), []);
 
   /**
-   * Analyze text and detect sections
+   * Analyze text and detect sections. Changes with the parsing config, so that callers re-running
+   * it on change also re-analyze when the settings change
    */
   const analyzeText = useCallback(async (text: string): Promise<DetectedSection[]> => {
+    // A newer analysis makes the running one stale
+    runRef.current?.abort();
+    runRef.current = null;
+
     if (!text.trim()) {
-      setDetectedSections([]);
+      setAnalyzedSections([]);
+      setIsAnalyzing(false);
+      setProcessing(false);
       return [];
     }
 
+    const run = new AbortController();
+    runRef.current = run;
     setIsAnalyzing(true);
     setProcessing(true);
+    setProgress(0);
 
     try {
       // Perform analysis
-      const result = await textAnalyzer.analyzeText(text);
+      const { result, stats } = await analysisClient.analyze(text, {
+        signal: run.signal,
+        onProgress: setProgress
+      });
       
+      // Sections of blocks the edit left alone keep their IDs and user edits, and their scores unless the config changed;
+      // spans the user marked in the editor stay as marked
+      const rescored = analyzedConfigRef.current !== parsingConfig;
+      analyzedConfigRef.current = parsingConfig;
+      const sections = sectionReconciler.reconcile(usePomlStore.getState().detectedSections, result.sections, text, rescored);
+
       // Update state
-      setLastAnalysis(result);
-      setDetectedSections(result.sections);
+      setLastAnalysis({ ...result, sections });
+      setAnalyzedSections(sections);
       setParsingErrors(result.errors);
 
       // Update stats
-      const stats = textAnalyzer.getAnalysisStats();
+      workerStatsRef.current = stats;
       setAnalysisStats({
         totalAnalyses: stats.processingStats.totalAnalyses,
         averageProcessingTime: stats.processingStats.averageProcessingTime,
@@ -80,8 +131,13 @@ export const useParser = (): UseParserReturn => {
       console.log(`Analysis completed in ${result.processingTime.toFixed(2)}ms`);
       console.log(`Detected ${result.sections.length} sections with ${result.confidence}% confidence`);
 
-      return result.sections;
+      return sections;
     } catch (error) {
+      // A cancelled run leaves the state to the run that replaced it
+      if (run.signal.aborted) {
+        return usePomlStore.getState().detectedSections;
+      }
+
       console.error('Text analysis failed:', error);
       setParsingErrors([{
         type: 'analysis_error',
@@ -90,10 +146,13 @@ export const useParser = (): UseParserReturn => {
       }]);
       return [];
     } finally {
-      setIsAnalyzing(false);
-      setProcessing(false);
+      if (runRef.current === run) {
+        runRef.current = null;
+        setIsAnalyzing(false);
+        setProcessing(false);
+      }
     }
-  }, [textAnalyzer, setDetectedSections, setProcessing, setParsingErrors]);
+  }, [parsingConfig, setAnalyzedSections, setProcessing, setParsingErrors]);
 
   /**
    * Re-analyze a specific section with user feedback
@@ -109,6 +168,11 @@ export const useParser = (): UseParserReturn => {
         feedback
       );
 
+      // Persist what the analyzer learned from the feedback
+      if (feedback) {
+        setLearnedState(textAnalyzer.getLearnedState());
+      }
+
       // Update the section in the store
       const currentSections = usePomlStore.getState().detectedSections;
       const updatedSections = currentSections.map(s => 
@@ -123,7 +187,7 @@ export const useParser = (): UseParserReturn => {
       console.error('Section reanalysis failed:', error);
       return section; // Return original section if reanalysis fails
     }
-  }, [textAnalyzer, inputText, setDetectedSections]);
+  }, [textAnalyzer, inputText, setDetectedSections, setLearnedState]);
 
   /**
    * Extract sections of a specific type
@@ -146,7 +210,7 @@ export const useParser = (): UseParserReturn => {
    * Get current analysis statistics
    */
   const getAnalysisStats = useCallback(() => {
-    const stats = textAnalyzer.getAnalysisStats();
+    const stats = workerStatsRef.current ?? textAnalyzer.getAnalysisStats();
     setAnalysisStats({
       totalAnalyses: stats.processingStats.totalAnalyses,
       averageProcessingTime: stats.processingStats.averageProcessingTime,
@@ -156,6 +220,7 @@ export const useParser = (): UseParserReturn => {
 
   return {
     isAnalyzing,
+    progress,
     lastAnalysis,
     analysisStats,
     analyzeText,
@@ -170,7 +235,12 @@ export const useParser = (): UseParserReturn => {
  */
 export const useAdvancedParser = () => {
   const parser = useParser();
-  const sectionExtractor = new SectionExtractor();
+  const parsingConfig = useParsingConfig();
+  const sectionExtractor = useMemo(() => new SectionExtractor(), []);
+
+  useEffect(() => {
+    sectionExtractor.configure(parsingConfig);
+  }, [sectionExtractor, parsingConfig]);
 
   /**
    * Analyze text with custom extraction options
@@ -178,12 +248,15 @@ export const useAdvancedParser = () => {
   const analyzeWithOptions = useCallback(async (
     text: string,
     options: {
-      minConfidence?: number;
+      minConfidence?: number; // 0-100, replaces the configured thresholds
       resolveOverlaps?: boolean;
       maxSectionsPerType?: number;
     }
   ) => {
-    const result = await sectionExtractor.extractSections(text, options);
+    const result = await sectionExtractor.extractSections(text, {
+      ...options,
+      minConfidenceThreshold: options.minConfidence
+    });
     return result;
   }, [sectionExtractor]);
 
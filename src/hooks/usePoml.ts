@@ -2,28 +2,70 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { 
   AppState, 
+  ClassificationFeedback,
   DetectedSection, 
+  EditableSnapshot,
+  LearnedState,
+  SectionType,
+  UndoEntry,
   ValidationError, 
   ParseError,
+  PatternPack,
   PomlTemplate,
+  ProjectVersion,
+  SavedProject,
   UserSettings 
 } from '../types';
-import { DEFAULT_SETTINGS } from '../utils';
+import { DEFAULT_SETTINGS, HISTORY_CONFIG, UNDO_CONFIG } from '../utils';
+import { generateId } from '../utils/helpers';
+import { getProjectRepository } from '../utils/projectRepository';
+import { EMPTY_LEARNED_STATE, feedbackLearner } from '../parser/feedbackLearner';
+import { sectionReconciler } from '../parser/sectionReconciler';
 
 interface PomlStoreState extends AppState {
   // Actions
   updateInputText: (text: string) => void;
   setDetectedSections: (sections: DetectedSection[]) => void;
+  setAnalyzedSections: (sections: DetectedSection[]) => void;
+  updateSection: (sectionId: string, content: string) => void;
+  reorderSections: (fromIndex: number, toIndex: number) => void;
+  changeSectionType: (sectionId: string, type: SectionType) => void;
+  markSpan: (type: SectionType, startIndex: number, endIndex: number) => void;
+  resizeSection: (sectionId: string, startIndex: number, endIndex: number) => void;
+  unmarkSection: (sectionId: string) => void;
   setProcessing: (processing: boolean) => void;
   setParsingErrors: (errors: ParseError[]) => void;
   setGeneratedPoml: (poml: string) => void;
   setValidationErrors: (errors: ValidationError[]) => void;
   setIsValid: (valid: boolean) => void;
   setSelectedTemplate: (template: PomlTemplate | undefined) => void;
+  saveCustomTemplate: (template: PomlTemplate) => void;
+  deleteCustomTemplate: (templateId: string) => void;
+  importCustomTemplates: (templates: PomlTemplate[]) => void;
+  refreshProjects: () => Promise<void>;
+  createProject: (name: string, options?: { fromCurrent?: boolean }) => Promise<SavedProject>;
+  openProject: (projectId: string) => Promise<void>;
+  saveCurrentProject: () => Promise<void>;
+  renameProject: (projectId: string, name: string) => Promise<void>;
+  duplicateProject: (projectId: string) => Promise<SavedProject>;
+  deleteProject: (projectId: string) => Promise<void>;
+  recordVersion: (label: string) => void;
+  restoreVersion: (versionId: string) => void;
+  clearVersions: () => void;
+  transaction: (label: string, apply: () => void) => void;
+  undo: () => void;
+  redo: () => void;
+  clearUndoHistory: () => void;
   toggleInspectorPanel: () => void;
   setActiveTab: (tab: 'preview' | 'raw' | 'errors') => void;
   setTheme: (theme: 'light' | 'dark') => void;
   updateSettings: (settings: Partial<UserSettings>) => void;
+  addPatternPack: (pack: PatternPack) => void;
+  removePatternPack: (packId: string) => void;
+  setPatternPackEnabled: (packId: string, enabled: boolean) => void;
+  recordFeedback: (feedback: ClassificationFeedback) => void;
+  setLearnedState: (state: LearnedState) => void;
+  resetLearnedState: () => void;
   resetState: () => void;
   // Add missing properties
   analysis?: any;
@@ -38,6 +80,13 @@ const initialState: AppState = {
   generatedPoml: '',
   validationErrors: [],
   isValid: true,
+  customTemplates: [],
+  currentProjectId: undefined,
+  projects: [],
+  versions: [],
+  undoStack: [],
+  redoStack: [],
+  learnedState: EMPTY_LEARNED_STATE,
   selectedTemplate: undefined,
   inspectorPanelOpen: true,
   activeTab: 'preview',
@@ -45,18 +94,164 @@ const initialState: AppState = {
   settings: DEFAULT_SETTINGS,
 };
 
+/**
+ * Workspace content that belongs to a project
+ */
+function workspaceOf(state: AppState): Omit<SavedProject, 'id' | 'name' | 'lastModified'> {
+  return {
+    originalText: state.inputText,
+    generatedPoml: state.generatedPoml,
+    detectedSections: state.detectedSections,
+    settings: state.settings,
+    versions: state.versions
+  };
+}
+
+/**
+ * Whether the workspace still matches a snapshot
+ */
+function matchesVersion(state: AppState, version: ProjectVersion): boolean {
+  return state.inputText === version.inputText &&
+    state.generatedPoml === version.generatedPoml &&
+    JSON.stringify(state.detectedSections) === JSON.stringify(version.detectedSections);
+}
+
+/**
+ * The part of the workspace covered by undo/redo
+ */
+function snapshotOf(state: AppState): EditableSnapshot {
+  return {
+    inputText: state.inputText,
+    detectedSections: state.detectedSections,
+    generatedPoml: state.generatedPoml
+  };
+}
+
+function snapshotsEqual(a: EditableSnapshot, b: EditableSnapshot): boolean {
+  return a.inputText === b.inputText &&
+    a.generatedPoml === b.generatedPoml &&
+    (a.detectedSections === b.detectedSections ||
+      JSON.stringify(a.detectedSections) === JSON.stringify(b.detectedSections));
+}
+
+function snapshotSize(snapshot: EditableSnapshot): number {
+  return snapshot.inputText.length +
+    snapshot.generatedPoml.length +
+    snapshot.detectedSections.reduce((total, section) => total + section.content.length, 0);
+}
+
+/**
+ * Drops the oldest entries until the stack fits the configured count and size limits
+ */
+function boundUndoStack(stack: UndoEntry[]): UndoEntry[] {
+  let total = stack.reduce((sum, entry) => sum + entry.size, 0);
+  let start = Math.max(0, stack.length - UNDO_CONFIG.MAX_ENTRIES);
+  for (let i = 0; i < start; i++) {
+    total -= stack[i].size;
+  }
+  // Always keep the newest entry, even if it alone exceeds the size budget
+  while (total > UNDO_CONFIG.MAX_TOTAL_SIZE && start < stack.length - 1) {
+    total -= stack[start].size;
+    start++;
+  }
+  return start > 0 ? stack.slice(start) : stack;
+}
+
+// Nesting depth of running transactions; changes inside one are recorded by the transaction itself
+let transactionDepth = 0;
+
+type SetStore = (partial: Partial<PomlStoreState>) => void;
+type GetStore = () => PomlStoreState;
+
+/**
+ * Undo stack with `before` pushed, or merged into the latest entry when it continues the same burst of edits
+ */
+function pushUndo(get: GetStore, label: string, before: EditableSnapshot, coalesceKey?: string): UndoEntry[] {
+  const { undoStack, redoStack } = get();
+  const now = Date.now();
+  const latest = undoStack[undoStack.length - 1];
+  const coalesce = coalesceKey !== undefined &&
+    redoStack.length === 0 &&
+    latest?.coalesceKey === coalesceKey &&
+    now - latest.timestamp < UNDO_CONFIG.COALESCE_DELAY;
+
+  return coalesce
+    ? [...undoStack.slice(0, -1), { ...latest, timestamp: now }]
+    : boundUndoStack([...undoStack, { label, snapshot: before, timestamp: now, coalesceKey, size: snapshotSize(before) }]);
+}
+
+/**
+ * Applies an edit to the workspace so that it can be undone
+ */
+function applyEdit(set: SetStore, get: GetStore, label: string, changes: Partial<EditableSnapshot>, coalesceKey?: string): void {
+  const before = snapshotOf(get());
+  if (snapshotsEqual(before, { ...before, ...changes })) return;
+
+  if (transactionDepth > 0) {
+    set(changes);
+    return;
+  }
+  set({ ...changes, undoStack: pushUndo(get, label, before, coalesceKey), redoStack: [] });
+}
+
 export const usePomlStore = create<PomlStoreState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       ...initialState,
 
       // Actions
       updateInputText: (text: string) => 
-        set({ inputText: text }),
+        applyEdit(set, get, 'Edit text', { inputText: text }, 'input-text'),
 
       setDetectedSections: (sections: DetectedSection[]) => 
+        applyEdit(set, get, 'Update sections', { detectedSections: sections }),
+
+      // Analyzer output follows the text and is no edit of the user's, so it stays out of the undo history
+      setAnalyzedSections: (sections: DetectedSection[]) =>
         set({ detectedSections: sections }),
 
+      updateSection: (sectionId: string, content: string) =>
+        applyEdit(set, get, 'Edit section', {
+          detectedSections: get().detectedSections.map(section =>
+            section.id === sectionId ? { ...section, content } : section
+          )
+        }, `section-${sectionId}`),
+
+      reorderSections: (fromIndex: number, toIndex: number) => {
+        const sections = [...get().detectedSections];
+        if (fromIndex === toIndex || !sections[fromIndex] || !sections[toIndex]) return;
+
+        const [moved] = sections.splice(fromIndex, 1);
+        sections.splice(toIndex, 0, moved);
+        applyEdit(set, get, 'Reorder sections', { detectedSections: sections });
+      },
+
+      // A type the user chose is certain, and re-analysis keeps it
+      changeSectionType: (sectionId: string, type: SectionType) =>
+        applyEdit(set, get, `Change section type to ${type}`, {
+          detectedSections: get().detectedSections.map(section =>
+            section.id === sectionId
+              ? { ...section, type, confidence: 100, metadata: { ...section.metadata, userCorrected: true } }
+              : section
+          )
+        }),
+
+      // Spans the user marks or resizes in the editor are ground truth for every later analysis
+      markSpan: (type: SectionType, startIndex: number, endIndex: number) =>
+        applyEdit(set, get, `Mark as ${type}`, {
+          detectedSections: sectionReconciler.markSpan(get().detectedSections, type, startIndex, endIndex, get().inputText)
+        }),
+
+      resizeSection: (sectionId: string, startIndex: number, endIndex: number) =>
+        applyEdit(set, get, 'Resize section', {
+          detectedSections: sectionReconciler.resizeSection(get().detectedSections, sectionId, startIndex, endIndex, get().inputText)
+        }),
+
+      unmarkSection: (sectionId: string) =>
+        applyEdit(set, get, 'Unmark section', {
+          detectedSections: get().detectedSections.filter(section => section.id !== sectionId)
+        }),
+
       setProcessing: (processing: boolean) => 
         set({ isProcessing: processing }),
 
@@ -64,7 +259,7 @@ export const usePomlStore = create<PomlStoreState>()(
         set({ parsingErrors: errors }),
 
       setGeneratedPoml: (poml: string) => 
-        set({ generatedPoml: poml }),
+        applyEdit(set, get, 'Update POML', { generatedPoml: poml }),
 
       setValidationErrors: (errors: ValidationError[]) => 
         set({ validationErrors: errors }),
@@ -75,6 +270,193 @@ export const usePomlStore = create<PomlStoreState>()(
       setSelectedTemplate: (template: PomlTemplate | undefined) => 
         set({ selectedTemplate: template }),
 
+      saveCustomTemplate: (template: PomlTemplate) =>
+        set((state) => ({
+          customTemplates: [...state.customTemplates.filter(existing => existing.id !== template.id), template]
+        })),
+
+      deleteCustomTemplate: (templateId: string) =>
+        set((state) => ({
+          customTemplates: state.customTemplates.filter(template => template.id !== templateId)
+        })),
+
+      // Imported templates replace saved templates with the same id
+      importCustomTemplates: (templates: PomlTemplate[]) =>
+        set((state) => {
+          const importedIds = new Set(templates.map(template => template.id));
+          return {
+            customTemplates: [
+              ...state.customTemplates.filter(template => !importedIds.has(template.id)),
+              ...templates
+            ]
+          };
+        }),
+
+      refreshProjects: async () => {
+        set({ projects: await getProjectRepository().list() });
+      },
+
+      createProject: async (name: string, options: { fromCurrent?: boolean } = {}) => {
+        const repository = getProjectRepository();
+        await get().saveCurrentProject();
+
+        const project = await repository.create(options.fromCurrent
+          ? { name, ...workspaceOf(get()) }
+          : { name, originalText: '', generatedPoml: '', detectedSections: [], settings: get().settings, versions: [] });
+
+        await get().openProject(project.id);
+        return project;
+      },
+
+      // Saves the open project first so that switching never loses edits
+      openProject: async (projectId: string) => {
+        const repository = getProjectRepository();
+        if (get().currentProjectId !== projectId) {
+          await get().saveCurrentProject();
+        }
+
+        const project = await repository.get(projectId);
+        if (!project) {
+          throw new Error(`Project '${projectId}' not found`);
+        }
+
+        set({
+          undoStack: [],
+          redoStack: [],
+          currentProjectId: project.id,
+          inputText: project.originalText,
+          detectedSections: project.detectedSections,
+          generatedPoml: project.generatedPoml,
+          settings: { ...DEFAULT_SETTINGS, ...project.settings },
+          versions: project.versions ?? [],
+          parsingErrors: [],
+          validationErrors: [],
+          isValid: true,
+        });
+        await get().refreshProjects();
+      },
+
+      saveCurrentProject: async () => {
+        const { currentProjectId } = get();
+        if (!currentProjectId) return;
+
+        const repository = getProjectRepository();
+        const current = await repository.get(currentProjectId);
+        if (!current) return;
+
+        const workspace = workspaceOf(get());
+        const unchanged = (Object.keys(workspace) as Array<keyof typeof workspace>)
+          .every(key => JSON.stringify(workspace[key]) === JSON.stringify(current[key]));
+        if (unchanged) return;
+
+        await repository.save({ ...current, ...workspace });
+        await get().refreshProjects();
+      },
+
+      renameProject: async (projectId: string, name: string) => {
+        if (projectId === get().currentProjectId) {
+          await get().saveCurrentProject();
+        }
+        await getProjectRepository().rename(projectId, name);
+        await get().refreshProjects();
+      },
+
+      duplicateProject: async (projectId: string) => {
+        if (projectId === get().currentProjectId) {
+          await get().saveCurrentProject();
+        }
+        const copy = await getProjectRepository().duplicate(projectId);
+        await get().refreshProjects();
+        return copy;
+      },
+
+      // Deleting the open project keeps its content in the workspace, detached from any project
+      deleteProject: async (projectId: string) => {
+        await getProjectRepository().delete(projectId);
+        if (projectId === get().currentProjectId) {
+          set({ currentProjectId: undefined });
+        }
+        await get().refreshProjects();
+      },
+
+      // Skipped when nothing changed since the latest snapshot
+      recordVersion: (label: string) =>
+        set((state) => {
+          const latest = state.versions[state.versions.length - 1];
+          if (latest && matchesVersion(state, latest)) return {};
+
+          const version: ProjectVersion = {
+            id: generateId(),
+            label,
+            createdAt: new Date(),
+            inputText: state.inputText,
+            detectedSections: state.detectedSections,
+            generatedPoml: state.generatedPoml
+          };
+          return { versions: [...state.versions, version].slice(-HISTORY_CONFIG.MAX_VERSIONS) };
+        }),
+
+      // The current workspace is snapshotted first so a restore can itself be undone
+      restoreVersion: (versionId: string) => {
+        const version = get().versions.find(candidate => candidate.id === versionId);
+        if (!version) return;
+
+        get().recordVersion('Before restore');
+        applyEdit(set, get, `Restore "${version.label}"`, {
+          inputText: version.inputText,
+          detectedSections: version.detectedSections,
+          generatedPoml: version.generatedPoml
+        });
+      },
+
+      clearVersions: () =>
+        set({ versions: [] }),
+
+      // Groups every edit made by `apply` into a single undo entry
+      transaction: (label: string, apply: () => void) => {
+        const before = snapshotOf(get());
+        transactionDepth++;
+        try {
+          apply();
+        } finally {
+          transactionDepth--;
+        }
+        if (transactionDepth > 0) return;
+
+        if (snapshotsEqual(before, snapshotOf(get()))) return;
+
+        set({ undoStack: pushUndo(get, label, before), redoStack: [] });
+      },
+
+      undo: () => {
+        const { undoStack, redoStack } = get();
+        const entry = undoStack[undoStack.length - 1];
+        if (!entry) return;
+
+        const current = snapshotOf(get());
+        set({
+          ...entry.snapshot,
+          undoStack: undoStack.slice(0, -1),
+          redoStack: [...redoStack, { ...entry, snapshot: current, coalesceKey: undefined, size: snapshotSize(current) }],
+        });
+      },
+
+      redo: () => {
+        const { undoStack, redoStack } = get();
+        const entry = redoStack[redoStack.length - 1];
+        if (!entry) return;
+
+        const current = snapshotOf(get());
+        set({
+          ...entry.snapshot,
+          redoStack: redoStack.slice(0, -1),
+          undoStack: boundUndoStack([...undoStack, { ...entry, snapshot: current, timestamp: Date.now(), size: snapshotSize(current) }]),
+        });
+      },
+
+      clearUndoHistory: () =>
+        set({ undoStack: [], redoStack: [] }),
+
       toggleInspectorPanel: () => 
         set((state) => ({ inspectorPanelOpen: !state.inspectorPanelOpen })),
 
@@ -89,6 +471,46 @@ export const usePomlStore = create<PomlStoreState>()(
           settings: { ...state.settings, ...newSettings } 
         })),
 
+      // A pack with the same id is replaced, keeping its place in the list
+      addPatternPack: (pack: PatternPack) =>
+        set((state) => {
+          const packs = state.settings.patternPacks;
+          const exists = packs.some(existing => existing.id === pack.id);
+          return {
+            settings: {
+              ...state.settings,
+              patternPacks: exists
+                ? packs.map(existing => existing.id === pack.id ? pack : existing)
+                : [...packs, pack]
+            }
+          };
+        }),
+
+      removePatternPack: (packId: string) =>
+        set((state) => ({
+          settings: {
+            ...state.settings,
+            patternPacks: state.settings.patternPacks.filter(pack => pack.id !== packId)
+          }
+        })),
+
+      setPatternPackEnabled: (packId: string, enabled: boolean) =>
+        set((state) => ({
+          settings: {
+            ...state.settings,
+            patternPacks: state.settings.patternPacks.map(pack => pack.id === packId ? { ...pack, enabled } : pack)
+          }
+        })),
+
+      recordFeedback: (feedback: ClassificationFeedback) =>
+        set((state) => ({ learnedState: feedbackLearner.applyFeedback(state.learnedState, feedback) })),
+
+      setLearnedState: (learnedState: LearnedState) =>
+        set({ learnedState }),
+
+      resetLearnedState: () =>
+        set({ learnedState: EMPTY_LEARNED_STATE }),
+
       resetState: () => 
         set(initialState),
 
@@ -107,18 +529,32 @@ export const usePomlStore = create<PomlStoreState>()(
   </constraints>
   <output-format>Respond in a structured format</output-format>
 </poml>`;
-        set({ generatedPoml: mockPoml });
+        get().setGeneratedPoml(mockPoml);
+        get().recordVersion('Generated');
       },
     }),
     {
       name: 'poml-studio-store',
       partialize: (state) => ({
-        // Only persist user settings and UI preferences
+        // Only persist user settings, saved templates, the open project and UI preferences.
+        // Its version history is stored with the project record, where it cannot fill up localStorage
         theme: state.theme,
         settings: state.settings,
+        customTemplates: state.customTemplates,
+        currentProjectId: state.currentProjectId,
+        learnedState: state.learnedState,
         inspectorPanelOpen: state.inspectorPanelOpen,
         activeTab: state.activeTab,
       }),
+      // Merge persisted settings over the defaults so newly added settings keep their defaults
+      merge: (persisted, current) => {
+        const saved = (persisted || {}) as Partial<PomlStoreState>;
+        return {
+          ...current,
+          ...saved,
+          settings: { ...current.settings, ...saved.settings },
+        };
+      },
     }
   )
 );
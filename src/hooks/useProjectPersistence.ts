@@ -0,0 +1,58 @@
+/**
+ * Project Persistence Hook - Restores the last open project on startup and autosaves edits to it
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { usePomlStore } from './usePoml';
+import { debounce } from 'lodash';
+
+const AUTOSAVE_DELAY = 1000;
+
+export const useProjectPersistence = (): void => {
+  const {
+    inputText,
+    detectedSections,
+    generatedPoml,
+    settings,
+    versions,
+    currentProjectId,
+    refreshProjects,
+    openProject,
+    saveCurrentProject
+  } = usePomlStore();
+  // Autosave stays off until the last project is restored, so an empty workspace never overwrites it
+  const restoredRef = useRef(false);
+
+  // Load the project list and reopen the project that was open last time
+  useEffect(() => {
+    const restore = async () => {
+      await refreshProjects();
+      const { currentProjectId: lastProjectId } = usePomlStore.getState();
+      if (lastProjectId) {
+        await openProject(lastProjectId).catch(() => usePomlStore.setState({ currentProjectId: undefined }));
+      }
+    };
+    restore()
+      .catch(error => console.error('Failed to restore projects:', error))
+      .finally(() => {
+        restoredRef.current = true;
+      });
+  }, [refreshProjects, openProject]);
+
+  const debouncedSave = useMemo(
+    () => debounce(() => {
+      saveCurrentProject().catch(error => console.error('Failed to save project:', error));
+    }, AUTOSAVE_DELAY),
+    [saveCurrentProject]
+  );
+
+  useEffect(() => {
+    if (restoredRef.current && currentProjectId && settings.autoSave) {
+      debouncedSave();
+    }
+  }, [inputText, detectedSections, generatedPoml, settings, versions, currentProjectId, debouncedSave]);
+
+  useEffect(() => () => debouncedSave.cancel(), [debouncedSave]);
+};
+
+export default useProjectPersistence;
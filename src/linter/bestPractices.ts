@@ -1,16 +1,315 @@
-// Best practices checker for POML optimization
-// This module will be implemented in Phase 4
+/**
+ * Best Practices Checker - Heuristic suggestions for clearer, more reliable prompts
+ * Works on the parsed POML tree plus the original text; suggestions may carry auto-fix edits
+ */
+
+import type {
+  BestPracticeSuggestion,
+  BestPracticesResult,
+  PomlComponent,
+  SuggestionFix,
+  TextEdit
+} from '../types';
+import { pomlReader } from '../generator/pomlReader';
+import { escapeXml } from '../utils/helpers';
 
 export interface BestPracticesChecker {
-  checkBestPractices(poml: string): any;
+  checkBestPractices(poml: string, originalText?: string): BestPracticesResult;
+}
+
+interface LengthLimit {
+  kind: 'min' | 'max';
+  value: number;
+  unit: string;
+  phrase: string;
+}
+
+const STRUCTURED_OUTPUT_HINTS: Array<{ pattern: RegExp; syntax: string; instruction: string }> = [
+  { pattern: /\bjson\b|\bschema\b|\bkey[- ]value\b/i, syntax: 'json', instruction: 'Respond with valid JSON only, without any surrounding prose.' },
+  { pattern: /\bcsv\b|\bcomma[- ]separated\b/i, syntax: 'csv', instruction: 'Respond with CSV data including a header row.' },
+  { pattern: /\byaml\b/i, syntax: 'yaml', instruction: 'Respond with valid YAML only.' },
+  { pattern: /\btable\b|\btabular\b/i, syntax: 'markdown', instruction: 'Respond with a Markdown table.' },
+  { pattern: /\bextract\b|\bfields?\b|\bstructured\b|\bclassify\b|\bcategori[sz]e\b/i, syntax: 'json', instruction: 'Respond with valid JSON only, without any surrounding prose.' }
+];
+
+const VAGUE_ROLE_PATTERNS = [
+  /\bhelpful\s+(?:ai\s+)?assistant\b/i,
+  /^(?:you\s+are\s+)?(?:a|an)\s+(?:ai|assistant|bot|chatbot|expert|helper|model)\.?$/i
+];
+
+const NEGATIVE_PHRASING = /^(?:please\s+)?(?:don't|do\s+not|never|avoid|no|must\s+not|should\s+not|shouldn't|cannot|can't|not)\b/i;
+
+const LENGTH_UNIT = '(words?|sentences?|characters?|paragraphs?|bullet\\s+points?|items?|lines?)';
+// A bound negated by 'no'/'not' is the opposite bound: "no fewer than" is a minimum, "no more than" a maximum
+const NOT_NEGATED = '(?<!\\b(?:no|not)\\s+)';
+// A bound governed by one of these earlier in its clause is the opposite bound too: "never write more than" is a maximum
+const CLAUSE_NEGATION = /\b(?:don['’]t|do\s+not|never|avoid(?:ing)?|must\s+not|mustn['’]t)\b/i;
+const CLAUSE_BOUNDARY = /[.!?;:,\n]|\b(?:and|but)\b/i;
+
+// Source of a phrase that caps a length, e.g. "at most 300 words"; captures the number and the unit
+export const MAX_LENGTH_PHRASE = `${NOT_NEGATED}\\b(?:at\\s+most|not?\\s+more\\s+than|up\\s+to|under|fewer\\s+than|less\\s+than|within|maximum(?:\\s+of)?|max|not\\s+exceed(?:ing)?|limit(?:ed)?\\s+to)\\s+(\\d+)\\s+${LENGTH_UNIT}`;
+const MIN_LENGTH_PHRASE = `${NOT_NEGATED}\\b(?:at\\s+least|not?\\s+(?:fewer|less)\\s+than|minimum(?:\\s+of)?|more\\s+than|over|exceed(?:ing)?)\\s+(\\d+)\\s+${LENGTH_UNIT}`;
+const MAX_LENGTH_PATTERN = new RegExp(MAX_LENGTH_PHRASE, 'gi');
+const MIN_LENGTH_PATTERN = new RegExp(MIN_LENGTH_PHRASE, 'gi');
+
+/**
+ * Apply non-overlapping text edits to a source string
+ */
+export function applyTextEdits(source: string, edits: TextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, edit) => text.substring(0, edit.start) + edit.newText + text.substring(edit.end), source);
+}
+
+/**
+ * Apply a suggestion's auto-fix to the POML it was computed for
+ */
+export function applySuggestionFix(poml: string, fix: SuggestionFix): string {
+  return applyTextEdits(poml, fix.edits);
 }
 
-// Placeholder implementation
-export const bestPracticesChecker: BestPracticesChecker = {
-  checkBestPractices(poml: string) {
-    console.log('Checking best practices:', poml.substring(0, 50) + '...');
+export class PomlBestPracticesChecker implements BestPracticesChecker {
+  /**
+   * Analyze POML (and optionally the source text) and return actionable suggestions
+   */
+  public checkBestPractices(poml: string, originalText = ''): BestPracticesResult {
+    if (!poml.trim()) {
+      return { suggestions: [] };
+    }
+
+    const { components } = pomlReader.parse(poml, { preserveComments: false });
+    const root = components.find(component => Array.isArray(component.content));
+
+    const suggestions: Omit<BestPracticeSuggestion, 'id'>[] = [
+      ...this.checkOutputFormat(components, root, originalText),
+      ...this.checkRoleClarity(components),
+      ...this.checkExampleVariety(components),
+      ...this.checkNegativeConstraints(components),
+      ...this.checkLengthLimits(components, poml)
+    ];
+
+    return {
+      suggestions: suggestions.map((suggestion, index) => ({
+        id: `${suggestion.rule}-${index}`,
+        ...suggestion
+      }))
+    };
+  }
+
+  /**
+   * Structured output implied by the task but no <output-format> given
+   */
+  private checkOutputFormat(
+    components: PomlComponent[],
+    root: PomlComponent | undefined,
+    originalText: string
+  ): Omit<BestPracticeSuggestion, 'id'>[] {
+    if (pomlReader.findComponents(components, 'output-format').length > 0) return [];
+
+    const taskText = pomlReader.findComponents(components, 'task')
+      .map(task => pomlReader.getTextContent(task))
+      .join(' ');
+    const hint = STRUCTURED_OUTPUT_HINTS.find(({ pattern }) => pattern.test(taskText) || pattern.test(originalText));
+    if (!hint) return [];
+
+    const insertion = root ? this.insertAfterLastChild(root, [
+      `<output-format syntax="${hint.syntax}">${escapeXml(hint.instruction)}</output-format>`
+    ]) : null;
+
+    return [{
+      rule: 'missing-output-format',
+      category: 'format',
+      message: `The task implies structured output, but no <output-format> is specified (suggested: ${hint.syntax})`,
+      ...this.locationOf(root),
+      fix: insertion ? { label: `Add ${hint.syntax} output format`, edits: [insertion] } : undefined
+    }];
+  }
+
+  /**
+   * Generic roles such as "a helpful assistant" give the model little to work with
+   */
+  private checkRoleClarity(components: PomlComponent[]): Omit<BestPracticeSuggestion, 'id'>[] {
+    return pomlReader.findComponents(components, 'role')
+      .filter(role => {
+        const text = pomlReader.getTextContent(role).trim();
+        const wordCount = text.split(/\s+/).filter(Boolean).length;
+        return VAGUE_ROLE_PATTERNS.some(pattern => pattern.test(text)) || wordCount < 3;
+      })
+      .map(role => ({
+        rule: 'vague-role',
+        category: 'clarity' as const,
+        message: `Role "${pomlReader.getTextContent(role).trim()}" is vague; name the domain expertise, audience and tone`,
+        ...this.locationOf(role)
+      }));
+  }
+
+  /**
+   * A lone example, or near-identical examples, teach the model a single pattern
+   */
+  private checkExampleVariety(components: PomlComponent[]): Omit<BestPracticeSuggestion, 'id'>[] {
+    const examples = pomlReader.findComponents(components, 'example');
+
+    if (examples.length === 1) {
+      const [example] = examples;
+      const indent = ' '.repeat(Math.max(0, (example.span?.start.column ?? 1) - 1));
+      const edit = example.span ? {
+        start: example.span.end.offset,
+        end: example.span.end.offset,
+        newText: [
+          '',
+          `${indent}<example>`,
+          `${indent}  <input>[An input that differs from the first example]</input>`,
+          `${indent}  <output>[The expected output for it]</output>`,
+          `${indent}</example>`
+        ].join('\n')
+      } : null;
+
+      return [{
+        rule: 'single-example',
+        category: 'examples',
+        message: 'Only one example is given; add varied examples so the model does not copy a single pattern',
+        ...this.locationOf(example),
+        fix: edit ? { label: 'Add example skeleton', edits: [edit] } : undefined
+      }];
+    }
+
+    const suggestions: Omit<BestPracticeSuggestion, 'id'>[] = [];
+    const texts = examples.map(example => this.wordSet(pomlReader.getTextContent(example)));
+    for (let i = 1; i < examples.length; i++) {
+      for (let j = 0; j < i; j++) {
+        if (this.jaccard(texts[i], texts[j]) > 0.8) {
+          suggestions.push({
+            rule: 'similar-examples',
+            category: 'examples',
+            message: `Example ${i + 1} is nearly identical to example ${j + 1}; vary inputs to cover more cases`,
+            ...this.locationOf(examples[i])
+          });
+          break;
+        }
+      }
+    }
+    return suggestions;
+  }
+
+  /**
+   * Constraints that only say what not to do leave the desired behaviour unstated
+   */
+  private checkNegativeConstraints(components: PomlComponent[]): Omit<BestPracticeSuggestion, 'id'>[] {
+    const constraintBlocks = [
+      ...pomlReader.findComponents(components, 'constraints'),
+      ...pomlReader.findComponents(components, 'cp').filter(cp => /constraint|rule|requirement/i.test(cp.attributes?.caption || ''))
+    ];
+
+    return constraintBlocks
+      .filter(block => {
+        const items = pomlReader.findComponents([block], 'item');
+        const statements = items.length > 0
+          ? items.map(item => pomlReader.getTextContent(item))
+          : pomlReader.getTextContent(block).split(/(?<=[.!?])\s+/);
+        const meaningful = statements.map(statement => statement.trim()).filter(Boolean);
+        return meaningful.length > 0 && meaningful.every(statement => NEGATIVE_PHRASING.test(statement));
+      })
+      .map(block => ({
+        rule: 'negative-constraints',
+        category: 'constraints' as const,
+        message: 'Constraints are phrased only as prohibitions; also state what the model should do instead',
+        ...this.locationOf(block)
+      }));
+  }
+
+  /**
+   * Length limits in the POML that cannot all be satisfied at once. Only the POML is checked: limits
+   * it shares with the original text would otherwise be compared with themselves. Several maximums
+   * do not conflict: the tightest one applies
+   */
+  private checkLengthLimits(components: PomlComponent[], poml: string): Omit<BestPracticeSuggestion, 'id'>[] {
+    const pomlText = components.map(component => pomlReader.getTextContent(component)).join(' ');
+    const limits = this.extractLengthLimits(pomlText);
+
+    const byUnit = new Map<string, LengthLimit[]>();
+    limits.forEach(limit => byUnit.set(limit.unit, [...(byUnit.get(limit.unit) || []), limit]));
+
+    const suggestions: Omit<BestPracticeSuggestion, 'id'>[] = [];
+
+    byUnit.forEach((unitLimits, unit) => {
+      const maxValues = [...new Set(unitLimits.filter(limit => limit.kind === 'max').map(limit => limit.value))];
+      const minValues = [...new Set(unitLimits.filter(limit => limit.kind === 'min').map(limit => limit.value))];
+      const tightestMax = maxValues.length > 0 ? Math.min(...maxValues) : Infinity;
+      const loosestMin = minValues.length > 0 ? Math.max(...minValues) : -Infinity;
+
+      if (loosestMin > tightestMax) {
+        suggestions.push({
+          rule: 'contradictory-length',
+          category: 'constraints',
+          message: `Minimum of ${loosestMin} ${unit}s exceeds the maximum of ${tightestMax} ${unit}s`,
+          ...this.locationOfPhrase(poml, unitLimits[0].phrase)
+        });
+      }
+    });
+
+    return suggestions;
+  }
+
+  private extractLengthLimits(text: string): LengthLimit[] {
+    const limits: LengthLimit[] = [];
+    const collect = (pattern: RegExp, kind: 'min' | 'max') => {
+      for (const match of text.matchAll(pattern)) {
+        const clause = text.slice(0, match.index).split(CLAUSE_BOUNDARY).pop() || '';
+        const negated = CLAUSE_NEGATION.test(clause);
+        limits.push({
+          kind: negated ? (kind === 'max' ? 'min' : 'max') : kind,
+          value: parseInt(match[1], 10),
+          unit: match[2].toLowerCase().replace(/\s+/g, ' ').replace(/s$/, ''),
+          phrase: match[0]
+        });
+      }
+    };
+    collect(MAX_LENGTH_PATTERN, 'max');
+    collect(MIN_LENGTH_PATTERN, 'min');
+    return limits;
+  }
+
+  /**
+   * Build an edit that inserts new lines after the last element child of a container
+   */
+  private insertAfterLastChild(container: PomlComponent, newLines: string[]): TextEdit | null {
+    if (!Array.isArray(container.content)) return null;
+
+    const lastChild = [...container.content].reverse().find(child => child.span && !child.tag.startsWith('#'));
+    if (!lastChild?.span) return null;
+
+    const indent = ' '.repeat(lastChild.span.start.column - 1);
     return {
-      suggestions: [],
+      start: lastChild.span.end.offset,
+      end: lastChild.span.end.offset,
+      newText: newLines.map(line => `\n${indent}${line}`).join('')
     };
-  },
-};
+  }
+
+  private locationOf(component: PomlComponent | undefined): { line?: number; column?: number } {
+    return component?.span
+      ? { line: component.span.start.line, column: component.span.start.column }
+      : {};
+  }
+
+  private locationOfPhrase(poml: string, phrase: string): { line?: number; column?: number } {
+    const offset = poml.toLowerCase().indexOf(phrase.toLowerCase());
+    if (offset === -1) return {};
+
+    const preceding = poml.substring(0, offset);
+    const line = preceding.split('\n').length;
+    return { line, column: offset - preceding.lastIndexOf('\n') };
+  }
+
+  private wordSet(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/\W+/).filter(Boolean));
+  }
+
+  private jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) return 1;
+    const intersection = [...a].filter(word => b.has(word)).length;
+    return intersection / (a.size + b.size - intersection);
+  }
+}
+
+export const bestPracticesChecker = new PomlBestPracticesChecker();
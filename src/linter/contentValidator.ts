@@ -1,17 +1,215 @@
-// Content validator for POML best practices
-// This module will be implemented in Phase 4
+/**
+ * Content Validator - Rule-based checks on the structure and content of POML documents
+ * Rules live in a registry so that teams can add their own and toggle them per project
+ */
 
-export interface ContentValidator {
-  validateContent(poml: string): any;
+import type {
+  PomlComponent,
+  ValidationContext,
+  ValidationError,
+  ValidationResult,
+  ValidationRule
+} from '../types';
+import { pomlReader } from '../generator/pomlReader';
+import { POML_ATTRIBUTES, POML_NESTING_RULES, POML_NODE_TAGS } from '../utils/constants';
+
+export interface ContentValidationOptions {
+  ruleOverrides?: Record<string, boolean>;
+}
+
+interface VisitedComponent {
+  component: PomlComponent;
+  ancestors: PomlComponent[];
+}
+
+// Components that are expected to carry no text content
+const CONTENTLESS_TAGS = ['let', 'img', 'document', 'table', 'br', 'hr'];
+
+/**
+ * Walk every element in the tree together with its ancestor chain
+ */
+function visitComponents(
+  components: PomlComponent[],
+  ancestors: PomlComponent[] = [],
+  visited: VisitedComponent[] = []
+): VisitedComponent[] {
+  for (const component of components) {
+    if (component.tag.startsWith('#')) continue;
+
+    visited.push({ component, ancestors });
+    if (Array.isArray(component.content)) {
+      visitComponents(component.content, [...ancestors, component], visited);
+    }
+  }
+  return visited;
+}
+
+function findingAt(
+  rule: ValidationRule,
+  message: string,
+  component?: PomlComponent
+): ValidationError {
+  return {
+    message,
+    line: component?.span?.start.line,
+    column: component?.span?.start.column,
+    severity: rule.severity,
+    rule: rule.name
+  };
 }
 
-// Placeholder implementation
-export const contentValidator: ContentValidator = {
-  validateContent(poml: string) {
-    console.log('Validating content:', poml.substring(0, 50) + '...');
+function hasText(component: PomlComponent): boolean {
+  if (typeof component.content === 'string') {
+    return component.content.trim().length > 0;
+  }
+  return component.content.some(child =>
+    child.tag === POML_NODE_TAGS.TEXT ? (child.content as string).trim().length > 0 : child.tag !== POML_NODE_TAGS.COMMENT
+  );
+}
+
+function requiredComponentRule(tag: string): ValidationRule {
+  const rule: ValidationRule = {
+    name: `required-${tag}`,
+    description: `The prompt should contain a <${tag}> component`,
+    severity: 'warning',
+    check: ({ components }) => {
+      const present = visitComponents(components).some(({ component }) => component.tag === tag);
+      return present ? [] : [findingAt(rule, `Missing <${tag}> component`, components[0])];
+    }
+  };
+  return rule;
+}
+
+const emptySectionRule: ValidationRule = {
+  name: 'empty-section',
+  description: 'Components should not be empty',
+  severity: 'warning',
+  check: ({ components }) =>
+    visitComponents(components)
+      .filter(({ component }) =>
+        !CONTENTLESS_TAGS.includes(component.tag) &&
+        !component.attributes?.src &&
+        !hasText(component)
+      )
+      .map(({ component }) => findingAt(emptySectionRule, `<${component.tag}> is empty`, component))
+};
+
+const illegalNestingRule: ValidationRule = {
+  name: 'illegal-nesting',
+  description: 'Components must appear inside their required parent',
+  severity: 'error',
+  check: ({ components }) =>
+    visitComponents(components)
+      .filter(({ component, ancestors }) => {
+        const allowedParents = POML_NESTING_RULES[component.tag];
+        if (!allowedParents) return false;
+        const parent = ancestors[ancestors.length - 1];
+        return !parent || !allowedParents.includes(parent.tag);
+      })
+      .map(({ component }) => findingAt(
+        illegalNestingRule,
+        `<${component.tag}> must be placed inside ${POML_NESTING_RULES[component.tag].map(tag => `<${tag}>`).join(' or ')}`,
+        component
+      ))
+};
+
+const unknownAttributeRule: ValidationRule = {
+  name: 'unknown-attribute',
+  description: 'Attributes should be ones the component understands',
+  severity: 'warning',
+  check: ({ components }) => {
+    const findings: ValidationError[] = [];
+    for (const { component } of visitComponents(components)) {
+      const allowed = [...POML_ATTRIBUTES['*'], ...(POML_ATTRIBUTES[component.tag] || [])];
+      for (const name of Object.keys(component.attributes || {})) {
+        if (!allowed.includes(name)) {
+          findings.push(findingAt(unknownAttributeRule, `Unknown attribute '${name}' on <${component.tag}>`, component));
+        }
+      }
+    }
+    return findings;
+  }
+};
+
+export const BUILT_IN_CONTENT_RULES: ValidationRule[] = [
+  requiredComponentRule('role'),
+  requiredComponentRule('task'),
+  emptySectionRule,
+  illegalNestingRule,
+  unknownAttributeRule
+];
+
+export class ContentValidator {
+  private rules = new Map<string, ValidationRule>();
+
+  constructor(rules: ValidationRule[] = BUILT_IN_CONTENT_RULES) {
+    rules.forEach(rule => this.registerRule(rule));
+  }
+
+  /**
+   * Register a rule, replacing any existing rule with the same name
+   */
+  public registerRule(rule: ValidationRule): void {
+    this.rules.set(rule.name, rule);
+  }
+
+  /**
+   * Remove a rule from the registry
+   */
+  public unregisterRule(name: string): boolean {
+    return this.rules.delete(name);
+  }
+
+  /**
+   * List all registered rules
+   */
+  public getRules(): ValidationRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Check whether a rule runs, given per-project overrides
+   */
+  public isRuleEnabled(rule: ValidationRule, overrides: Record<string, boolean> = {}): boolean {
+    return overrides[rule.name] ?? rule.enabledByDefault ?? true;
+  }
+
+  /**
+   * Run every enabled rule against the POML document
+   */
+  public validateContent(poml: string, options: ContentValidationOptions = {}): ValidationResult {
+    if (!poml.trim()) {
+      return { isValid: true, errors: [], warnings: [] };
+    }
+
+    const context: ValidationContext = {
+      poml,
+      components: pomlReader.parse(poml, { preserveComments: false }).components
+    };
+
+    const findings: ValidationError[] = [];
+    for (const rule of this.rules.values()) {
+      if (!this.isRuleEnabled(rule, options.ruleOverrides)) continue;
+
+      try {
+        findings.push(...rule.check(context));
+      } catch (error) {
+        findings.push({
+          message: `Rule '${rule.name}' failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          severity: 'info',
+          rule: rule.name
+        });
+      }
+    }
+
+    const errors = findings.filter(finding => finding.severity === 'error');
+
     return {
-      warnings: [],
-      suggestions: [],
+      isValid: errors.length === 0,
+      errors,
+      warnings: findings.filter(finding => finding.severity !== 'error')
     };
-  },
-};
+  }
+}
+
+export const contentValidator = new ContentValidator();
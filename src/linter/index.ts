@@ -1,3 +1,4 @@
+export * from './pomlTokenizer';
 export * from './syntaxValidator';
 export * from './contentValidator';
 export * from './bestPractices';
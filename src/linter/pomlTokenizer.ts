@@ -0,0 +1,388 @@
+/**
+ * POML Tokenizer - Splits POML markup into tags, text, comments and declarations
+ * Tracks line/column positions so that validators can report exact locations
+ */
+
+import type { SourcePosition, SourceSpan, ValidationError } from '../types';
+import { isValidXmlTagName, numericEntityCodePoint } from '../utils/helpers';
+
+export type PomlTokenType =
+  | 'openTag'
+  | 'closeTag'
+  | 'selfClosingTag'
+  | 'text'
+  | 'comment'
+  | 'cdata'
+  | 'declaration';
+
+export interface PomlAttributeToken {
+  name: string;
+  value: string;
+  quoted: boolean;
+  span: SourceSpan;
+}
+
+export interface PomlToken {
+  type: PomlTokenType;
+  name?: string;
+  attributes?: PomlAttributeToken[];
+  text?: string;
+  span: SourceSpan;
+}
+
+export interface TokenizeResult {
+  tokens: PomlToken[];
+  errors: ValidationError[];
+}
+
+const ENTITY_PATTERN = /^&(#\d+|#x[0-9a-fA-F]+|[a-zA-Z_][\w.-]*);/;
+
+export class PomlTokenizer {
+  private source = '';
+  private pos = 0;
+  private lineStarts: number[] = [0];
+  private tokens: PomlToken[] = [];
+  private errors: ValidationError[] = [];
+
+  /**
+   * Tokenize POML markup, collecting lexical errors along the way
+   */
+  public tokenize(source: string): TokenizeResult {
+    this.source = source;
+    this.pos = 0;
+    this.tokens = [];
+    this.errors = [];
+    this.lineStarts = this.computeLineStarts(source);
+
+    while (this.pos < this.source.length) {
+      if (this.source[this.pos] === '<') {
+        this.readMarkup();
+      } else {
+        this.readText();
+      }
+    }
+
+    return { tokens: this.tokens, errors: this.errors };
+  }
+
+  /**
+   * Convert a character offset into a 1-based line/column position
+   */
+  public positionAt(offset: number): SourcePosition {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return {
+      offset,
+      line: low + 1,
+      column: offset - this.lineStarts[low] + 1
+    };
+  }
+
+  /**
+   * Dispatch on the kind of markup starting at the current '<'
+   */
+  private readMarkup(): void {
+    if (this.source.startsWith('<!--', this.pos)) {
+      this.readDelimited('comment', '<!--', '-->', 'unterminated-comment', 'Comment is never closed');
+    } else if (this.source.startsWith('<![CDATA[', this.pos)) {
+      this.readDelimited('cdata', '<![CDATA[', ']]>', 'unterminated-cdata', 'CDATA section is never closed');
+    } else if (this.source.startsWith('<?', this.pos)) {
+      this.readDelimited('declaration', '<?', '?>', 'unterminated-declaration', 'Declaration is never closed');
+    } else if (this.source[this.pos + 1] === '/') {
+      this.readCloseTag();
+    } else if (this.isTagStart(this.source[this.pos + 1])) {
+      this.readOpenTag();
+    } else {
+      // A bare '<' that does not start any markup is treated as text
+      this.report('unescaped-character', "Unescaped '<' in text; use &lt; instead", this.pos);
+      this.readText(true);
+    }
+  }
+
+  /**
+   * Read a text run up to the next '<'
+   */
+  private readText(includeCurrent = false): void {
+    const start = this.pos;
+    let end = this.source.indexOf('<', includeCurrent ? start + 1 : start);
+    if (end === -1) end = this.source.length;
+
+    const text = this.source.substring(start, end);
+    this.checkEntities(text, start);
+
+    this.tokens.push({ type: 'text', text, span: this.spanOf(start, end) });
+    this.pos = end;
+  }
+
+  /**
+   * Read a comment, CDATA section or declaration with fixed delimiters
+   */
+  private readDelimited(
+    type: PomlTokenType,
+    open: string,
+    close: string,
+    rule: string,
+    message: string
+  ): void {
+    const start = this.pos;
+    const closeIndex = this.source.indexOf(close, start + open.length);
+    let end: number;
+
+    if (closeIndex === -1) {
+      this.report(rule, message, start);
+      end = this.source.length;
+    } else {
+      end = closeIndex + close.length;
+    }
+
+    const inner = this.source.substring(start + open.length, closeIndex === -1 ? end : closeIndex);
+    const token: PomlToken = { type, text: inner, span: this.spanOf(start, end) };
+
+    if (type === 'declaration') {
+      token.name = inner.trim().split(/\s+/)[0] || '';
+    }
+
+    this.tokens.push(token);
+    this.pos = end;
+  }
+
+  /**
+   * Read a closing tag such as </task>
+   */
+  private readCloseTag(): void {
+    const start = this.pos;
+    this.pos += 2;
+
+    const nameStart = this.pos;
+    const name = this.readName();
+    this.validateTagName(name, nameStart);
+    this.skipWhitespace();
+
+    if (this.source[this.pos] === '>') {
+      this.pos++;
+    } else {
+      this.report('unterminated-tag', `Closing tag </${name}> is missing '>'`, start);
+      this.skipToTagEnd();
+    }
+
+    this.tokens.push({ type: 'closeTag', name, span: this.spanOf(start, this.pos) });
+  }
+
+  /**
+   * Read an opening or self-closing tag together with its attributes
+   */
+  private readOpenTag(): void {
+    const start = this.pos;
+    this.pos += 1;
+
+    const nameStart = this.pos;
+    const name = this.readName();
+    this.validateTagName(name, nameStart);
+
+    const attributes: PomlAttributeToken[] = [];
+    let type: PomlTokenType = 'openTag';
+
+    while (true) {
+      this.skipWhitespace();
+
+      if (this.pos >= this.source.length) {
+        this.report('unterminated-tag', `Tag <${name}> is missing '>'`, start);
+        break;
+      }
+
+      const char = this.source[this.pos];
+
+      if (char === '>') {
+        this.pos++;
+        break;
+      }
+
+      if (char === '/' && this.source[this.pos + 1] === '>') {
+        this.pos += 2;
+        type = 'selfClosingTag';
+        break;
+      }
+
+      if (char === '<') {
+        // Leave the '<' for the next token so the rest of the document still tokenizes
+        this.report('unterminated-tag', `Tag <${name}> is missing '>'`, start);
+        break;
+      }
+
+      const attribute = this.readAttribute(name, attributes);
+      if (attribute) {
+        attributes.push(attribute);
+      }
+    }
+
+    this.tokens.push({ type, name, attributes, span: this.spanOf(start, this.pos) });
+  }
+
+  /**
+   * Read a single attribute, reporting quoting and naming problems
+   */
+  private readAttribute(
+    tagName: string,
+    existing: PomlAttributeToken[]
+  ): PomlAttributeToken | null {
+    const start = this.pos;
+    const name = this.readName();
+
+    if (!name) {
+      this.report('malformed-tag', `Unexpected character '${this.source[this.pos]}' in tag <${tagName}>`, this.pos);
+      this.pos++;
+      return null;
+    }
+
+    if (!isValidXmlTagName(name)) {
+      this.report('invalid-attribute-name', `Invalid attribute name '${name}' on <${tagName}>`, start);
+    }
+
+    if (existing.some(attribute => attribute.name === name)) {
+      this.report('duplicate-attribute', `Duplicate attribute '${name}' on <${tagName}>`, start);
+    }
+
+    this.skipWhitespace();
+
+    if (this.source[this.pos] !== '=') {
+      this.report('attribute-quoting', `Attribute '${name}' on <${tagName}> has no value; use ${name}="..."`, start);
+      return { name, value: '', quoted: false, span: this.spanOf(start, this.pos) };
+    }
+
+    this.pos++;
+    this.skipWhitespace();
+
+    const quote = this.source[this.pos];
+
+    if (quote === '"' || quote === "'") {
+      const closeIndex = this.source.indexOf(quote, this.pos + 1);
+
+      if (closeIndex === -1) {
+        this.report('attribute-quoting', `Attribute '${name}' on <${tagName}> has an unterminated ${quote === '"' ? 'double' : 'single'} quote`, start);
+        // Recover at the end of the tag so the '>' still closes it
+        const valueStart = this.pos + 1;
+        while (this.pos < this.source.length && !/[<>]/.test(this.source[this.pos])) {
+          this.pos++;
+        }
+        const value = this.source.substring(valueStart, this.pos);
+        return { name, value, quoted: true, span: this.spanOf(start, this.pos) };
+      }
+
+      const value = this.source.substring(this.pos + 1, closeIndex);
+      if (value.includes('<')) {
+        this.report('attribute-quoting', `Attribute '${name}' on <${tagName}> contains '<'; use &lt; instead`, start);
+      }
+      this.checkEntities(value, this.pos + 1);
+
+      this.pos = closeIndex + 1;
+      return { name, value, quoted: true, span: this.spanOf(start, this.pos) };
+    }
+
+    // Unquoted value: read up to whitespace or the end of the tag
+    const valueStart = this.pos;
+    while (
+      this.pos < this.source.length &&
+      !/[\s>]/.test(this.source[this.pos]) &&
+      !this.source.startsWith('/>', this.pos)
+    ) {
+      this.pos++;
+    }
+    const value = this.source.substring(valueStart, this.pos);
+    this.report('attribute-quoting', `Value of attribute '${name}' on <${tagName}> must be quoted`, start);
+
+    return { name, value, quoted: false, span: this.spanOf(start, this.pos) };
+  }
+
+  /**
+   * Read a tag or attribute name at the current position
+   */
+  private readName(): string {
+    const start = this.pos;
+    while (this.pos < this.source.length && !/[\s/>=<"']/.test(this.source[this.pos])) {
+      this.pos++;
+    }
+    return this.source.substring(start, this.pos);
+  }
+
+  /**
+   * Report an invalid or missing tag name
+   */
+  private validateTagName(name: string, offset: number): void {
+    if (!name) {
+      this.report('invalid-tag-name', 'Tag name is missing', offset);
+    } else if (!isValidXmlTagName(name)) {
+      this.report('invalid-tag-name', `Invalid tag name '${name}'`, offset);
+    }
+  }
+
+  /**
+   * Report '&' characters that do not start a valid entity reference, and numeric
+   * references to code points that are no characters
+   */
+  private checkEntities(text: string, baseOffset: number): void {
+    let index = text.indexOf('&');
+    while (index !== -1) {
+      const entity = ENTITY_PATTERN.exec(text.substring(index));
+      if (!entity) {
+        this.report('unescaped-character', "Unescaped '&' in text; use &amp; instead", baseOffset + index);
+      } else if (entity[1].startsWith('#') && numericEntityCodePoint(entity[1]) === null) {
+        this.report('invalid-entity', `Character reference '${entity[0]}' is not a valid character`, baseOffset + index);
+      }
+      index = text.indexOf('&', index + 1);
+    }
+  }
+
+  /**
+   * Advance past the next '>' (or to the next '<' / end of input)
+   */
+  private skipToTagEnd(): void {
+    while (this.pos < this.source.length && this.source[this.pos] !== '<') {
+      if (this.source[this.pos] === '>') {
+        this.pos++;
+        return;
+      }
+      this.pos++;
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private isTagStart(char: string | undefined): boolean {
+    return char !== undefined && !/[\s<>=/"'!?]/.test(char);
+  }
+
+  private spanOf(start: number, end: number): SourceSpan {
+    return { start: this.positionAt(start), end: this.positionAt(end) };
+  }
+
+  private report(rule: string, message: string, offset: number): void {
+    const { line, column } = this.positionAt(offset);
+    this.errors.push({ message, line, column, severity: 'error', rule });
+  }
+
+  private computeLineStarts(source: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') {
+        starts.push(i + 1);
+      }
+    }
+    return starts;
+  }
+}
+
+export const pomlTokenizer = new PomlTokenizer();
@@ -1,17 +1,183 @@
-// Syntax validator for POML compliance
-// This module will be implemented in Phase 4
+/**
+ * Syntax Validator - Checks POML markup for well-formedness
+ * Reports unclosed/mismatched tags, attribute quoting problems, invalid names and stray text
+ */
+
+import type { ValidationError, ValidationResult } from '../types';
+import { PomlTokenizer, type PomlToken } from './pomlTokenizer';
 
 export interface SyntaxValidator {
-  validateSyntax(poml: string): any;
+  validateSyntax(poml: string): ValidationResult;
 }
 
-// Placeholder implementation
-export const syntaxValidator: SyntaxValidator = {
-  validateSyntax(poml: string) {
-    console.log('Validating syntax:', poml.substring(0, 50) + '...');
+export class PomlSyntaxValidator implements SyntaxValidator {
+  private tokenizer = new PomlTokenizer();
+
+  /**
+   * Validate POML markup and return every syntax problem with its position
+   */
+  public validateSyntax(poml: string): ValidationResult {
+    if (!poml.trim()) {
+      return { isValid: true, errors: [], warnings: [] };
+    }
+
+    const { tokens, errors: lexicalErrors } = this.tokenizer.tokenize(poml);
+    const structuralErrors = this.checkStructure(tokens);
+
+    const findings = [...lexicalErrors, ...structuralErrors].sort(
+      (a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0)
+    );
+
+    const errors = findings.filter(finding => finding.severity === 'error');
+    const warnings = findings.filter(finding => finding.severity !== 'error');
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
+  /**
+   * Match opening and closing tags and check what appears outside the root element
+   */
+  private checkStructure(tokens: PomlToken[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const stack: PomlToken[] = [];
+    let rootSeen = false;
+    let contentSeen = false;
+
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'declaration':
+          if (contentSeen) {
+            errors.push(this.error(
+              'misplaced-declaration',
+              `Declaration <?${token.name}?> must appear at the very start of the document`,
+              token
+            ));
+          }
+          break;
+
+        case 'openTag':
+        case 'selfClosingTag':
+          if (stack.length === 0 && rootSeen) {
+            errors.push(this.error(
+              'multiple-roots',
+              `<${token.name}> is outside the root element; POML must have a single root element`,
+              token
+            ));
+          }
+          rootSeen = true;
+          if (token.type === 'openTag') {
+            stack.push(token);
+          }
+          break;
+
+        case 'closeTag':
+          this.closeTag(token, stack, errors);
+          break;
+
+        case 'text':
+        case 'cdata':
+          if (stack.length === 0 && token.text!.trim()) {
+            errors.push(this.strayTextError(token));
+          }
+          break;
+
+        case 'comment':
+          break;
+      }
+
+      if (token.type !== 'text' || token.text!.trim()) {
+        contentSeen = true;
+      }
+    }
+
+    // Anything still open at the end of the document was never closed
+    for (const open of stack) {
+      errors.push(this.error('unclosed-tag', `<${open.name}> is never closed`, open));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Pop the tag stack for a closing tag, reporting mismatches
+   */
+  private closeTag(token: PomlToken, stack: PomlToken[], errors: ValidationError[]): void {
+    if (stack.length === 0) {
+      errors.push(this.error(
+        'mismatched-tag',
+        `Closing tag </${token.name}> has no matching opening tag`,
+        token
+      ));
+      return;
+    }
+
+    const top = stack[stack.length - 1];
+    if (top.name === token.name) {
+      stack.pop();
+      return;
+    }
+
+    const matchIndex = stack.map(open => open.name).lastIndexOf(token.name);
+
+    if (matchIndex === -1) {
+      // Stray closing tag: report it and leave the stack untouched
+      errors.push(this.error(
+        'mismatched-tag',
+        `Closing tag </${token.name}> does not match the open <${top.name}>`,
+        token
+      ));
+      return;
+    }
+
+    // The closing tag matches an outer element, so every element above it is unclosed
+    errors.push(this.error(
+      'mismatched-tag',
+      `Expected </${top.name}> before </${token.name}>`,
+      token
+    ));
+    for (const unclosed of stack.splice(matchIndex + 1)) {
+      errors.push(this.error('unclosed-tag', `<${unclosed.name}> is never closed`, unclosed));
+    }
+    stack.pop();
+  }
+
+  /**
+   * Build a stray-text error pointing at the first non-whitespace character
+   */
+  private strayTextError(token: PomlToken): ValidationError {
+    const text = token.text!;
+    const leading = text.length - text.trimStart().length;
+    const preceding = text.substring(0, leading);
+    const newlines = preceding.split('\n').length - 1;
+    const column = newlines > 0
+      ? leading - preceding.lastIndexOf('\n')
+      : token.span.start.column + leading;
+
+    const snippet = text.trim();
+    const preview = snippet.length > 30 ? snippet.substring(0, 30) + '...' : snippet;
+
     return {
-      isValid: true,
-      errors: [],
+      message: `Text "${preview}" appears outside the root element`,
+      line: token.span.start.line + newlines,
+      column,
+      severity: 'error',
+      rule: 'stray-text'
     };
-  },
-};
+  }
+
+  private error(rule: string, message: string, token: PomlToken): ValidationError {
+    return {
+      message,
+      line: token.span.start.line,
+      column: token.span.start.column,
+      severity: 'error',
+      rule
+    };
+  }
+}
+
+export const syntaxValidator = new PomlSyntaxValidator();
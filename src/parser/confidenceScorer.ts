@@ -3,14 +3,47 @@
  * Implements sophisticated scoring algorithms based on pattern strength, context, and user feedback
  */
 
-import type { DetectedSection, SectionType, PatternMatch } from '../types';
+import type { ConfidenceFactor, DetectedSection, SectionType, PatternMatch, LearnedState } from '../types';
+import { SECTION_TYPE_LABELS } from '../utils/constants';
+import { EMPTY_LEARNED_STATE, feedbackLearner } from './feedbackLearner';
+
+// Where in the text (0-1) each section type usually starts
+const OPTIMAL_POSITIONS: Record<SectionType, number> = {
+  role: 0.2,      // Usually near the beginning
+  context: 0.25,  // Right after the role
+  audience: 0.3,
+  task: 0.4,      // Often in the first half
+  inputData: 0.5, // Follows the task it belongs to
+  constraints: 0.6, // Often in the middle/later
+  style: 0.65,
+  examples: 0.7,  // Usually later in the text
+  outputFormat: 0.8, // Often at the end
+  unknown: 0.5    // No preference
+};
+
+// Optimal length ranges for different section types
+const OPTIMAL_LENGTHS: Record<SectionType, { min: number; max: number; optimal: number }> = {
+  role: { min: 20, max: 150, optimal: 60 },
+  context: { min: 40, max: 800, optimal: 200 },
+  audience: { min: 15, max: 200, optimal: 60 },
+  task: { min: 30, max: 300, optimal: 100 },
+  inputData: { min: 20, max: 10000, optimal: 500 },
+  constraints: { min: 20, max: 200, optimal: 80 },
+  style: { min: 10, max: 150, optimal: 50 },
+  examples: { min: 50, max: 500, optimal: 150 },
+  outputFormat: { min: 15, max: 100, optimal: 40 },
+  unknown: { min: 10, max: 1000, optimal: 100 }
+};
 
 export interface ConfidenceScorerInterface {
   calculateSectionConfidence(section: DetectedSection, context: string): number;
+  explainSectionConfidence(section: DetectedSection, context: string): { confidence: number; factors: ConfidenceFactor[] };
   calculatePatternConfidence(match: PatternMatch, text: string): number;
   calculateOverallConfidence(sections: DetectedSection[]): number;
   getAverageConfidence(): number;
   updateFromFeedback(section: DetectedSection, userFeedback: boolean): void;
+  setLearnedState(state: LearnedState | undefined): void;
+  getLearnedState(): LearnedState;
 }
 
 export class ConfidenceScorer implements ConfidenceScorerInterface {
@@ -21,22 +54,70 @@ export class ConfidenceScorer implements ConfidenceScorerInterface {
     userFeedback: boolean;
     timestamp: number;
   }> = [];
+  private learnedState: LearnedState = EMPTY_LEARNED_STATE;
 
   /**
    * Calculate confidence for a detected section based on multiple factors
    */
   public calculateSectionConfidence(section: DetectedSection, context: string): number {
-    let confidence = section.confidence / 100; // Convert to 0-1 range
-    
+    return this.explainSectionConfidence(section, context).confidence;
+  }
+
+  /**
+   * Section confidence (0-1) together with each factor that multiplied it and why
+   */
+  public explainSectionConfidence(
+    section: DetectedSection,
+    context: string
+  ): { confidence: number; factors: ConfidenceFactor[] } {
+    const label = SECTION_TYPE_LABELS[section.type].toLowerCase();
+    const position = Math.round(section.startIndex / Math.max(context.length, 1) * 100);
+    const range = OPTIMAL_LENGTHS[section.type];
+    const keywords = this.getRelevantKeywords(section.type);
+    const contextWords = context.toLowerCase().split(/\s+/);
+    const foundKeywords = keywords.filter(keyword => contextWords.some(word => word.includes(keyword)));
+    const typeMultiplier = this.getTypeSpecificMultiplier(section);
+    const feedbackMultiplier = this.getFeedbackBasedMultiplier(section.type);
+
     // Apply various confidence boosters/penalties
-    confidence *= this.getPositionConfidenceMultiplier(section, context);
-    confidence *= this.getLengthConfidenceMultiplier(section);
-    confidence *= this.getContextRelevanceMultiplier(section, context);
-    confidence *= this.getTypeSpecificMultiplier(section);
-    confidence *= this.getFeedbackBasedMultiplier(section.type);
+    const factors: ConfidenceFactor[] = [
+      {
+        name: 'Position',
+        multiplier: this.getPositionConfidenceMultiplier(section, context),
+        detail: `Starts ${position}% into the text; ${label} sections usually start near ${Math.round(OPTIMAL_POSITIONS[section.type] * 100)}%`
+      },
+      {
+        name: 'Length',
+        multiplier: this.getLengthConfidenceMultiplier(section),
+        detail: `${section.content.length} characters; ${range.min}-${range.max} expected, ${range.optimal} ideal`
+      },
+      {
+        name: 'Context',
+        multiplier: this.getContextRelevanceMultiplier(section, context),
+        detail: foundKeywords.length > 0
+          ? `The text mentions ${foundKeywords.map(keyword => `"${keyword}"`).join(', ')}`
+          : `None of the ${label} keywords appear in the text`
+      },
+      {
+        name: 'Type cues',
+        multiplier: typeMultiplier,
+        detail: typeMultiplier > 1
+          ? `The content has wording typical of ${label} sections`
+          : typeMultiplier < 1 ? `The content lacks wording typical of ${label} sections` : 'No cues checked for this type'
+      },
+      {
+        name: 'Feedback',
+        multiplier: feedbackMultiplier,
+        detail: feedbackMultiplier === 1
+          ? 'Corrections have not changed this type\'s weight'
+          : `Learned from ${this.learnedState.feedbackCount} corrections`
+      }
+    ];
+
+    const confidence = factors.reduce((product, factor) => product * factor.multiplier, section.confidence / 100);
 
     // Ensure confidence stays within bounds
-    return Math.max(0.1, Math.min(1.0, confidence));
+    return { confidence: Math.max(0.1, Math.min(1.0, confidence)), factors };
   }
 
   /**
@@ -107,9 +188,16 @@ export class ConfidenceScorer implements ConfidenceScorerInterface {
   }
 
   /**
-   * Update scorer based on user feedback
+   * Update scorer based on user feedback; the learned part persists via getLearnedState
    */
   public updateFromFeedback(section: DetectedSection, userFeedback: boolean): void {
+    this.learnedState = feedbackLearner.applyFeedback(this.learnedState, {
+      predictedType: section.type,
+      correctedType: userFeedback ? section.type : undefined,
+      patterns: section.patterns ?? [],
+      text: section.content
+    });
+
     this.feedbackData.push({
       sectionType: section.type,
       originalConfidence: section.confidence,
@@ -123,6 +211,14 @@ export class ConfidenceScorer implements ConfidenceScorerInterface {
     }
   }
 
+  public setLearnedState(state: LearnedState | undefined): void {
+    this.learnedState = state ?? EMPTY_LEARNED_STATE;
+  }
+
+  public getLearnedState(): LearnedState {
+    return this.learnedState;
+  }
+
   /**
    * Calculate position-based confidence multiplier
    */
@@ -130,16 +226,7 @@ export class ConfidenceScorer implements ConfidenceScorerInterface {
     const position = section.startIndex / context.length;
     
     // Different section types have different optimal positions
-    const optimalPositions = {
-      role: 0.2,      // Usually near the beginning
-      task: 0.4,      // Often in the first half
-      constraints: 0.6, // Often in the middle/later
-      examples: 0.7,  // Usually later in the text
-      outputFormat: 0.8, // Often at the end
-      unknown: 0.5    // No preference
-    };
-
-    const optimal = optimalPositions[section.type];
+    const optimal = OPTIMAL_POSITIONS[section.type];
     const deviation = Math.abs(position - optimal);
     
     // Less deviation = higher multiplier (max 1.1, min 0.9)
@@ -151,18 +238,7 @@ export class ConfidenceScorer implements ConfidenceScorerInterface {
    */
   private getLengthConfidenceMultiplier(section: DetectedSection): number {
     const length = section.content.length;
-    
-    // Optimal length ranges for different section types
-    const optimalRanges = {
-      role: { min: 20, max: 150, optimal: 60 },
-      task: { min: 30, max: 300, optimal: 100 },
-      constraints: { min: 20, max: 200, optimal: 80 },
-      examples: { min: 50, max: 500, optimal: 150 },
-      outputFormat: { min: 15, max: 100, optimal: 40 },
-      unknown: { min: 10, max: 1000, optimal: 100 }
-    };
-
-    const range = optimalRanges[section.type];
+    const range = OPTIMAL_LENGTHS[section.type];
     
     if (length < range.min) {
       return 0.8; // Too short penalty
@@ -199,14 +275,30 @@ export class ConfidenceScorer implements ConfidenceScorerInterface {
         // Role sections with personal pronouns are more reliable
         return /\b(you|your|i|my)\b/gi.test(section.content) ? 1.05 : 0.95;
       
+      case 'context':
+        // Context sections describing the situation are more reliable
+        return /\b(background|context|currently|our|we)\b/gi.test(section.content) ? 1.05 : 0.95;
+
+      case 'audience':
+        // Audience sections naming readers are more reliable
+        return /\b(audience|readers?|users?|students|customers|for)\b/gi.test(section.content) ? 1.05 : 0.95;
+
       case 'task':
         // Task sections with action verbs are more reliable
         return /\b(analyze|create|generate|write|develop|design|build)\b/gi.test(section.content) ? 1.05 : 0.95;
+
+      case 'inputData':
+        // Input data is more reliable when it is structured or introduced as such
+        return /^\s*[[{<"`]|\b(text|data|document|below)\b/i.test(section.content) ? 1.05 : 0.95;
       
       case 'constraints':
         // Constraint sections with negative words are more reliable
         return /\b(don't|never|avoid|must not|cannot|shouldn't)\b/gi.test(section.content) ? 1.05 : 0.95;
       
+      case 'style':
+        // Style sections with tone words are more reliable
+        return /\b(tone|style|voice|formal|friendly|casual)\b/gi.test(section.content) ? 1.05 : 0.95;
+
       case 'examples':
         // Example sections with example indicators are more reliable
         return /\b(example|for instance|such as|like|sample)\b/gi.test(section.content) ? 1.05 : 0.95;
@@ -224,15 +316,7 @@ export class ConfidenceScorer implements ConfidenceScorerInterface {
    * Calculate feedback-based multiplier
    */
   private getFeedbackBasedMultiplier(type: SectionType): number {
-    const typeFeedback = this.feedbackData.filter(f => f.sectionType === type);
-    
-    if (typeFeedback.length === 0) return 1.0;
-    
-    const positiveCount = typeFeedback.filter(f => f.userFeedback).length;
-    const accuracy = positiveCount / typeFeedback.length;
-    
-    // Convert accuracy to multiplier (0.5 accuracy = 1.0 multiplier, higher = bonus, lower = penalty)
-    return 0.8 + (accuracy * 0.4);
+    return feedbackLearner.getTypeMultiplier(this.learnedState, type);
   }
 
   /**
@@ -292,8 +376,12 @@ export class ConfidenceScorer implements ConfidenceScorerInterface {
   private getSectionTypeWeights(): Record<SectionType, number> {
     return {
       role: 1.2,      // Role is very important
+      context: 0.9,
+      audience: 0.8,
       task: 1.3,      // Task is most important
+      inputData: 1.0, // The task usually cannot be done without it
       constraints: 1.0,
+      style: 0.8,
       examples: 0.9,
       outputFormat: 1.1,
       unknown: 0.5
@@ -306,8 +394,12 @@ export class ConfidenceScorer implements ConfidenceScorerInterface {
   private getRelevantKeywords(type: SectionType): string[] {
     const keywordMap = {
       role: ['you', 'are', 'act', 'role', 'persona', 'character', 'assistant'],
+      context: ['background', 'context', 'situation', 'currently', 'company', 'project'],
+      audience: ['audience', 'reader', 'readers', 'users', 'intended', 'beginners', 'experts'],
       task: ['analyze', 'create', 'generate', 'write', 'develop', 'task', 'objective', 'goal'],
+      inputData: ['text', 'data', 'document', 'input', 'below', 'following', 'transcript'],
       constraints: ['don\'t', 'avoid', 'never', 'must', 'limit', 'restrict', 'constraint', 'rule'],
+      style: ['tone', 'style', 'voice', 'formal', 'casual', 'friendly'],
       examples: ['example', 'instance', 'sample', 'demonstration', 'illustration'],
       outputFormat: ['format', 'structure', 'json', 'xml', 'respond', 'present', 'output'],
       unknown: []
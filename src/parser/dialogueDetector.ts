@@ -0,0 +1,90 @@
+/**
+ * Dialogue Detector - Recognizes chat transcripts and Q/A pairs from their speaker labels
+ * Each labelled line starts a turn; a transcript needs both a human and an AI speaker
+ */
+
+import type { Dialogue, DialogueSpeaker, DialogueTurn } from '../types';
+
+// Speaker labels (lowercased) and the side of the conversation they stand for
+const SPEAKER_LABELS: Record<string, DialogueSpeaker> = {
+  user: 'human',
+  human: 'human',
+  customer: 'human',
+  client: 'human',
+  student: 'human',
+  patient: 'human',
+  me: 'human',
+  q: 'human',
+  question: 'human',
+  assistant: 'ai',
+  ai: 'ai',
+  bot: 'ai',
+  chatbot: 'ai',
+  agent: 'ai',
+  model: 'ai',
+  a: 'ai',
+  answer: 'ai',
+  system: 'system'
+};
+
+const QA_LABELS = new Set(['q', 'question', 'a', 'answer']);
+
+// A speaker label at the start of a line, optionally bulleted or in bold, e.g. "User:", "- Q:", "**Assistant:**"
+const TURN_LABEL = new RegExp(
+  `^[ \\t]*(?:[-*>][ \\t]+)?(?:\\*\\*|__)?(${Object.keys(SPEAKER_LABELS).join('|')})(?:\\*\\*|__)?[ \\t]*:(?:\\*\\*|__)?[ \\t]*`,
+  'gim'
+);
+
+const MIN_TURNS = 2;
+
+export class DialogueDetector {
+  /**
+   * Whether `text` opens with a speaker label
+   */
+  public startsWithTurn(text: string): boolean {
+    const [first] = this.findLabels(text.trimStart());
+    return first?.index === 0;
+  }
+
+  /**
+   * Turns of `text` in order when it is a transcript, or null; offsets are shifted by `offset`
+   */
+  public detect(text: string, offset = 0): Dialogue | null {
+    const labels = this.findLabels(text);
+    if (labels.length < MIN_TURNS || text.slice(0, labels[0].index).trim()) return null;
+
+    const turns: DialogueTurn[] = labels.map((label, index) => {
+      const end = index + 1 < labels.length ? labels[index + 1].index : text.length;
+      const turnText = text.slice(label.index, end).trimEnd();
+      return {
+        speaker: SPEAKER_LABELS[label.name.toLowerCase()],
+        label: label.name,
+        content: turnText.slice(label.length).trim(),
+        startIndex: offset + label.index,
+        endIndex: offset + label.index + turnText.length
+      };
+    });
+
+    const speakers = new Set(turns.map(turn => turn.speaker));
+    if (!speakers.has('human') || !speakers.has('ai')) return null;
+
+    return {
+      kind: turns.every(turn => QA_LABELS.has(turn.label.toLowerCase())) ? 'qa' : 'chat',
+      turns
+    };
+  }
+
+  /**
+   * Speaker labels of `text` with their position and the length of the label markup
+   */
+  private findLabels(text: string): Array<{ name: string; index: number; length: number }> {
+    return [...text.matchAll(TURN_LABEL)].map(match => ({
+      name: match[1],
+      index: match.index + (match[0].length - match[0].trimStart().length),
+      length: match[0].trimStart().length
+    }));
+  }
+}
+
+// Create singleton instance
+export const dialogueDetector = new DialogueDetector();
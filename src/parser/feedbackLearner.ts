@@ -0,0 +1,138 @@
+/**
+ * Feedback Learner - Turns user corrections into pattern weights and section type multipliers
+ * The learned state is plain data so it can be persisted, exported and shared between analyzers
+ */
+
+import type { ClassificationFeedback, LabelledExample, LearnedState, SectionType } from '../types';
+import { SECTION_TYPES } from '../utils/constants';
+
+export const LEARNED_STATE_FORMAT = 'poml-studio-learned-state';
+export const LEARNED_STATE_VERSION = 1;
+
+export const EMPTY_LEARNED_STATE: LearnedState = {
+  patternWeights: {},
+  typeMultipliers: {},
+  feedbackCount: 0
+};
+
+const PATTERN_STEP = 0.15; // relative change of a pattern weight per correction
+const TYPE_STEP = 0.05; // absolute change of a type multiplier per correction
+const PATTERN_WEIGHT_RANGE = { min: 0.2, max: 2 };
+const TYPE_MULTIPLIER_RANGE = { min: 0.5, max: 1.5 };
+const MAX_EXAMPLES = 200; // corrected sections kept for retraining the classifier
+
+interface LearnedStateFile extends LearnedState {
+  format: string;
+  version: number;
+}
+
+const clamp = (value: number, range: { min: number; max: number }): number =>
+  Math.max(range.min, Math.min(range.max, value));
+
+export class FeedbackLearner {
+  /**
+   * Learned state after one correction: confirmed patterns gain weight, rejected ones lose it
+   */
+  public applyFeedback(state: LearnedState, feedback: ClassificationFeedback): LearnedState {
+    const { predictedType, correctedType } = feedback;
+    const confirmed = correctedType === predictedType;
+
+    const patternWeights = { ...state.patternWeights };
+    new Set(feedback.patterns).forEach(pattern => {
+      const weight = patternWeights[pattern] ?? 1;
+      patternWeights[pattern] = clamp(weight * (confirmed ? 1 + PATTERN_STEP : 1 - PATTERN_STEP), PATTERN_WEIGHT_RANGE);
+    });
+
+    const typeMultipliers = { ...state.typeMultipliers };
+    const adjustType = (type: SectionType, delta: number) => {
+      if (type === 'unknown') return;
+      typeMultipliers[type] = clamp((typeMultipliers[type] ?? 1) + delta, TYPE_MULTIPLIER_RANGE);
+    };
+    adjustType(predictedType, confirmed ? TYPE_STEP : -TYPE_STEP);
+    if (correctedType && !confirmed) {
+      adjustType(correctedType, TYPE_STEP);
+    }
+
+    // The user's verdict on the text becomes a training example for the classifier
+    const text = feedback.text?.trim();
+    const examples = text && correctedType
+      ? [...(state.examples ?? []), { text, type: correctedType }].slice(-MAX_EXAMPLES)
+      : state.examples;
+
+    return {
+      patternWeights,
+      typeMultipliers,
+      feedbackCount: state.feedbackCount + 1,
+      ...(examples && { examples }),
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  public getPatternWeight(state: LearnedState | undefined, pattern: string): number {
+    return state?.patternWeights[pattern] ?? 1;
+  }
+
+  public getTypeMultiplier(state: LearnedState | undefined, type: SectionType): number {
+    return state?.typeMultipliers[type] ?? 1;
+  }
+
+  public serializeLearnedState(state: LearnedState): string {
+    const file: LearnedStateFile = {
+      format: LEARNED_STATE_FORMAT,
+      version: LEARNED_STATE_VERSION,
+      ...state
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Read learned state exported by serializeLearnedState
+   */
+  public parseLearnedState(json: string): LearnedState {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Learned state is not valid JSON');
+    }
+
+    const file = (data ?? {}) as Partial<LearnedStateFile>;
+    if (file.format !== LEARNED_STATE_FORMAT) {
+      throw new Error('File is not a POML Studio learned state export');
+    }
+    if ((file.version ?? 0) > LEARNED_STATE_VERSION) {
+      throw new Error(`Learned state version ${file.version} is not supported`);
+    }
+    if (!this.isNumberRecord(file.patternWeights) || !this.isNumberRecord(file.typeMultipliers)) {
+      throw new Error('Learned state is malformed');
+    }
+    if (file.examples !== undefined && (!Array.isArray(file.examples) || !file.examples.every(this.isExample))) {
+      throw new Error('Learned state has malformed examples');
+    }
+
+    return {
+      patternWeights: this.clampRecord(file.patternWeights, PATTERN_WEIGHT_RANGE),
+      typeMultipliers: this.clampRecord(file.typeMultipliers, TYPE_MULTIPLIER_RANGE),
+      feedbackCount: typeof file.feedbackCount === 'number' ? file.feedbackCount : 0,
+      ...(file.examples && { examples: file.examples.slice(-MAX_EXAMPLES) }),
+      updatedAt: typeof file.updatedAt === 'string' ? file.updatedAt : undefined
+    };
+  }
+
+  private isNumberRecord(value: unknown): value is Record<string, number> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+      Object.values(value).every(entry => typeof entry === 'number' && Number.isFinite(entry));
+  }
+
+  private isExample(value: unknown): value is LabelledExample {
+    const example = (value ?? {}) as Partial<LabelledExample>;
+    return typeof example.text === 'string' && SECTION_TYPES.includes(example.type as SectionType);
+  }
+
+  private clampRecord(record: Record<string, number>, range: { min: number; max: number }): Record<string, number> {
+    return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, clamp(value, range)]));
+  }
+}
+
+// Create singleton instance
+export const feedbackLearner = new FeedbackLearner();
@@ -2,6 +2,17 @@
 export * from './textAnalyzer';
 export * from './sectionExtractor';
 export * from './confidenceScorer';
+export * from './markdownSegmenter';
+export * from './patternPacks';
+export * from './feedbackLearner';
+export * from './sectionClassifier';
+export * from './classifierCorpus';
+export * from './languageDetector';
+export * from './languagePatterns';
+export * from './dialogueDetector';
+export * from './variableDetector';
+export * from './sectionReconciler';
+export * from './sectionExplainer';
 
 // Main parser interface for easy integration
 export { TextAnalyzer as Parser } from './textAnalyzer';
@@ -0,0 +1,75 @@
+/**
+ * Language Detector - Identifies the language of a prompt from common function words and letters
+ * Covers the languages the analyzer has patterns for; anything else is treated as English
+ */
+
+import type { LanguageDetection, PromptLanguage } from '../types';
+
+export const PROMPT_LANGUAGES: readonly PromptLanguage[] = ['en', 'de', 'es', 'fr'];
+
+const DEFAULT_LANGUAGE: PromptLanguage = 'en';
+
+// Frequent words that are rare in the other supported languages
+const FUNCTION_WORDS: Record<PromptLanguage, readonly string[]> = {
+  en: [
+    'the', 'and', 'you', 'your', 'are', 'is', 'of', 'to', 'with', 'for', 'this', 'that', 'be', 'should',
+    'must', 'not', 'will', 'an', 'in', 'on', 'it', 'as', 'or', 'please', 'each', 'from', 'what', 'which'
+  ],
+  de: [
+    'der', 'die', 'das', 'und', 'du', 'sie', 'ist', 'bist', 'nicht', 'ein', 'eine', 'einen', 'mit', 'für',
+    'auf', 'zu', 'den', 'dem', 'des', 'dich', 'dein', 'deine', 'bitte', 'keine', 'oder', 'als', 'wie', 'auch'
+  ],
+  es: [
+    'el', 'la', 'los', 'las', 'y', 'que', 'eres', 'es', 'un', 'una', 'con', 'para', 'por', 'del', 'tu',
+    'no', 'como', 'se', 'en', 'lo', 'al', 'más', 'pero', 'sus', 'debe', 'usa', 'cada', 'sobre'
+  ],
+  fr: [
+    'le', 'la', 'les', 'et', 'tu', 'vous', 'est', 'êtes', 'un', 'une', 'des', 'du', 'avec', 'pour',
+    'ne', 'pas', 'que', 'qui', 'ta', 'ton', 'votre', 'dans', 'sur', 'au', 'aux', 'chaque', 'doit'
+  ]
+};
+
+// Letters that only occur in one of the supported languages
+const LETTER_HINTS: Partial<Record<PromptLanguage, RegExp>> = {
+  de: /[äöüß]/g,
+  es: /[ñ¿¡]/g,
+  fr: /[çœàèêëîïûù]/g
+};
+
+const LETTER_HINT_WEIGHT = 0.5; // a distinctive letter counts as half a function word
+
+export class LanguageDetector {
+  private functionWords = new Map(
+    PROMPT_LANGUAGES.map(language => [language, new Set(FUNCTION_WORDS[language])])
+  );
+
+  /**
+   * Most likely language of `text`; English with no confidence when nothing points anywhere
+   */
+  public detect(text: string): LanguageDetection {
+    const lowerText = text.toLowerCase();
+    const words = lowerText.match(/\p{L}+/gu) ?? [];
+
+    const scores = PROMPT_LANGUAGES.map(language => {
+      const vocabulary = this.functionWords.get(language)!;
+      const wordHits = words.filter(word => vocabulary.has(word)).length;
+      const hints = LETTER_HINTS[language];
+      const letterHits = hints ? lowerText.match(hints)?.length ?? 0 : 0;
+      return wordHits + LETTER_HINT_WEIGHT * letterHits;
+    });
+
+    const total = scores.reduce((sum, score) => sum + score, 0);
+    if (total === 0) {
+      return { language: DEFAULT_LANGUAGE, confidence: 0 };
+    }
+
+    const bestIndex = scores.reduce((best, score, index) => score > scores[best] ? index : best, 0);
+    return {
+      language: PROMPT_LANGUAGES[bestIndex],
+      confidence: scores[bestIndex] / total
+    };
+  }
+}
+
+// Create singleton instance
+export const languageDetector = new LanguageDetector();
@@ -0,0 +1,189 @@
+/**
+ * Language Patterns - Section detection patterns and score keywords for prompts not written in English
+ * Patterns run on lowercased text; `(?<!\p{L})` stands in for \b, which does not treat accented letters as word characters
+ */
+
+import type { PromptLanguage, SectionType } from '../types';
+
+export interface LanguagePatternSet {
+  patterns: Record<Exclude<SectionType, 'unknown'>, RegExp[]>;
+  keywords: string[]; // raise the score of a match that contains one of them
+}
+
+export const LANGUAGE_PATTERNS: Partial<Record<PromptLanguage, LanguagePatternSet>> = {
+  de: {
+    patterns: {
+      role: [
+        /(?<!\p{L})(?:du\s+bist|sie\s+sind)\s+(?:eine?[nr]?\s+)?([^.!?]*)/giu,
+        /(?<!\p{L})(?:agiere|fungiere|handle|verhalte\s+dich|agieren\s+sie)\s+(?:wie\s+|als\s+)(?:eine?[nr]?\s+)?([^.!?]*)/giu,
+        /(?<!\p{L})(?:schlüpfe\s+in|übernimm|übernehmen\s+sie)\s+die\s+rolle\s+(?:eines|einer|des|der)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:deine|ihre)\s+rolle\s+ist\s+([^.!?]*)/giu,
+        /(?<!\p{L})als\s+(?:erfahrene[rn]?|professionelle[rn]?|experte|expertin)\s+([^,.\n]*)/giu
+      ],
+      context: [
+        /(?<!\p{L})(?:hintergrund|kontext)\s*:\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:zum\s+hintergrund|als\s+hintergrund)\s*[,:]?\s*([^.!?]*)/giu,
+        /(?<!\p{L})unser(?:e)?\s+(?:firma|unternehmen|team|produkt|projekt|kunde)\s+(?:ist|hat|nutzt|verkauft|entwickelt)\s+([^.!?]*)/giu
+      ],
+      audience: [
+        /(?<!\p{L})zielgruppe\s*(?:ist|sind|:)\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:richtet\s+sich\s+an|gedacht\s+für|geschrieben\s+für)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:die\s+)?leser(?:innen)?\s+sind\s+([^.!?]*)/giu
+      ],
+      task: [
+        /(?<!\p{L})(?:bitte\s+)?(analysiere|erstelle|generiere|fasse|schreibe|entwickle|entwirf|erkläre|beschreibe|vergleiche|bewerte|überprüfe|übersetze)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:deine|ihre)\s+aufgabe\s+(?:ist|besteht\s+darin),?\s+(?:es\s+)?([^.!?]*)/giu,
+        /(?<!\p{L})ich\s+(?:brauche|möchte|will),?\s+dass\s+(?:du|sie)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:bitte\s+)?(?:analysieren|erstellen|schreiben|übersetzen|erklären)\s+sie\s+([^.!?]*)/giu
+      ],
+      inputData: [
+        /(?<!\p{L})(?:eingabedaten|eingabetext|quelltext|text)\s*:\s*([^\n]*)/giu,
+        /(?<!\p{L})(?:hier\s+ist|hier\s+sind|im\s+folgenden|nachfolgend)\s+(?:der|die|das)?\s*(?:text|daten|dokument|artikel|e-mail|bericht)/giu
+      ],
+      constraints: [
+        /(?<!\p{L})(?:verwende|nutze|benutze|erwähne|erfinde|gib)\s+(?:keine?[nrs]?|nicht|niemals)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:niemals|vermeide|keinesfalls|auf\s+keinen\s+fall)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:du\s+darfst|sie\s+dürfen)\s+(?:nicht|keine?[nrs]?)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:nicht\s+mehr\s+als|höchstens|maximal)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:achte\s+darauf|stelle\s+sicher),?\s+dass\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:anforderungen|einschränkungen|regeln|vorgaben):\s*([^.!?]*)/giu,
+        /(?<!\p{L})halte\s+(?:dich|es)\s+(kurz|knapp|einfach|unter\s+\d+[^.!?]*)/giu
+      ],
+      style: [
+        /(?<!\p{L})(?:ton|stil|tonfall)\s*(?:soll(?:te)?\s+sein|ist|:)\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:in\s+einem|mit\s+einem)\s+([^.!?]*?)\s+(?:ton|stil|tonfall)/giu,
+        /(?<!\p{L})(?:sei|klinge)\s+(freundlich|förmlich|locker|professionell|sachlich|humorvoll|empathisch)/giu
+      ],
+      examples: [
+        /(?<!\p{L})(?:zum\s+beispiel|beispielsweise|beispiel)\s*:?\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:eingabe|ausgabe):\s*([^.!?]*)/giu,
+        /(?<!\p{L})hier\s+(?:ist|sind)\s+(?:ein|einige)\s+beispiele?\s*:?\s*([^.!?]*)/giu,
+        /(?<!\p{L})beispiel\s+\d+\s*:?\s*([^.!?]*)/giu
+      ],
+      outputFormat: [
+        /(?<!\p{L})(?:formatiere|gib|liefere|strukturiere)\s+(?:deine\s+antwort|die\s+antwort|das\s+ergebnis|die\s+ausgabe)\s+(?:als|in)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:antworte|antworten\s+sie)\s+(?:als|in|mit)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:im|als)\s+(json|xml|csv|markdown|html|yaml)[-\s]?format/giu,
+        /(?<!\p{L})(aufzählungspunkten?|nummerierte[nr]?\s+liste|tabelle)/giu,
+        /(?<!\p{L})(?:ausgabeformat|antwortformat|format):\s*([^.!?]*)/giu
+      ]
+    },
+    keywords: ['du bist', 'analysiere', 'erstelle', 'nicht', 'beispiel', 'format']
+  },
+  es: {
+    patterns: {
+      role: [
+        /(?<!\p{L})(?:eres|usted\s+es)\s+(?:un|una)?\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:actúa|actua|compórtate|comportate|actúe)\s+como\s+(?:un|una)?\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:asume|adopta)\s+el\s+(?:rol|papel)\s+de\s+(?:un|una)?\s*([^.!?]*)/giu,
+        /(?<!\p{L})tu\s+(?:rol|papel|función)\s+es\s+([^.!?]*)/giu,
+        /(?<!\p{L})como\s+(?:un|una)\s+(?:experto|experta|especialista|profesional)\s*([^,.\n]*)/giu
+      ],
+      context: [
+        /(?<!\p{L})(?:contexto|antecedentes)\s*:\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:como\s+contexto|para\s+contexto)\s*[,:]?\s*([^.!?]*)/giu,
+        /(?<!\p{L})nuestr[ao]\s+(?:empresa|equipo|producto|proyecto|cliente)\s+(?:es|tiene|usa|vende|desarrolla)\s+([^.!?]*)/giu
+      ],
+      audience: [
+        /(?<!\p{L})(?:público|audiencia)(?:\s+objetivo)?\s*(?:es|son|:)\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:dirigido|destinado|pensado|escrito)\s+(?:a|para)\s+([^.!?]*)/giu,
+        /(?<!\p{L})los\s+lectores\s+son\s+([^.!?]*)/giu
+      ],
+      task: [
+        /(?<!\p{L})(?:por\s+favor,?\s+)?(analiza|crea|genera|resume|escribe|redacta|desarrolla|diseña|explica|describe|compara|evalúa|revisa|traduce)\s+([^.!?]*)/giu,
+        /(?<!\p{L})tu\s+tarea\s+(?:es|consiste\s+en)\s+([^.!?]*)/giu,
+        /(?<!\p{L})necesito\s+que\s+([^.!?]*)/giu
+      ],
+      inputData: [
+        /(?<!\p{L})(?:datos\s+de\s+entrada|texto\s+de\s+entrada|texto)\s*:\s*([^\n]*)/giu,
+        /(?<!\p{L})(?:aquí\s+(?:está|tienes)|a\s+continuación\s+(?:está|tienes|se\s+muestra))\s+(?:el|la|los|las)?\s*(?:texto|datos|documento|artículo|correo|informe)/giu
+      ],
+      constraints: [
+        /(?<!\p{L})no\s+(?:uses|utilices|incluyas|menciones|inventes|des|hagas|escribas|superes)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:nunca|evita|jamás)\s+([^.!?]*)/giu,
+        /(?<!\p{L})no\s+más\s+de\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:como\s+)?máximo\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:asegúrate|asegurate)\s+de\s+(?:que\s+)?([^.!?]*)/giu,
+        /(?<!\p{L})(?:usa|utiliza)\s+(?:solo|solamente|únicamente)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:requisitos|restricciones|reglas|limitaciones):\s*([^.!?]*)/giu
+      ],
+      style: [
+        /(?<!\p{L})(?:tono|estilo)\s*(?:debe\s+ser|es|:)\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:con|en)\s+un\s+(?:tono|estilo)\s+([^.!?]*)/giu,
+        /(?<!\p{L})sé\s+(amable|formal|informal|profesional|cercano|neutral|divertido|empático)/giu
+      ],
+      examples: [
+        /(?<!\p{L})(?:por\s+ejemplo|ejemplo)\s*:?\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:entrada|salida):\s*([^.!?]*)/giu,
+        /(?<!\p{L})aquí\s+(?:tienes|hay)\s+(?:un|unos|algunos)\s+ejemplos?\s*:?\s*([^.!?]*)/giu,
+        /(?<!\p{L})ejemplo\s+\d+\s*:?\s*([^.!?]*)/giu
+      ],
+      outputFormat: [
+        /(?<!\p{L})(?:formatea|estructura|presenta|devuelve|entrega)\s+(?:tu\s+respuesta|la\s+respuesta|el\s+resultado|los\s+resultados)\s+(?:como|en)\s+([^.!?]*)/giu,
+        /(?<!\p{L})responde\s+(?:con|en|usando)\s+([^.!?]*)/giu,
+        /(?<!\p{L})formato\s+(json|xml|csv|markdown|html|yaml|de\s+tabla)/giu,
+        /(?<!\p{L})(viñetas|lista\s+numerada|una\s+tabla)/giu,
+        /(?<!\p{L})formato\s+de\s+(?:salida|respuesta):\s*([^.!?]*)/giu
+      ]
+    },
+    keywords: ['eres', 'analiza', 'crea', 'nunca', 'ejemplo', 'formato']
+  },
+  fr: {
+    patterns: {
+      role: [
+        /(?<!\p{L})(?:tu\s+es|vous\s+êtes)\s+(?:une?\s+)?([^.!?]*)/giu,
+        /(?<!\p{L})(?:agis|agissez|comporte-toi|comportez-vous)\s+(?:comme|en\s+tant\s+que?)\s+(?:une?\s+)?([^.!?]*)/giu,
+        /(?<!\p{L})(?:joue|jouez|endosse|endossez|prends|prenez)\s+le\s+rôle\s+d(?:e\s+|')(?:une?\s+)?([^.!?]*)/giu,
+        /(?<!\p{L})(?:ton|votre)\s+rôle\s+est\s+(?:de\s+)?([^.!?]*)/giu,
+        /(?<!\p{L})en\s+tant\s+qu(?:e\s+|')(?:une?\s+)?([^,.\n]*)/giu
+      ],
+      context: [
+        /(?<!\p{L})(?:contexte|historique)\s*:\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:pour\s+le\s+contexte|pour\s+contexte)\s*[,:]?\s*([^.!?]*)/giu,
+        /(?<!\p{L})notre\s+(?:entreprise|équipe|produit|projet|client)\s+(?:est|a|utilise|vend|développe)\s+([^.!?]*)/giu
+      ],
+      audience: [
+        /(?<!\p{L})(?:public|audience)(?:\s+cible)?\s*(?:est|sont|:)\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:destiné|adressé|écrit|pensé)e?s?\s+(?:à|aux|pour)\s+([^.!?]*)/giu,
+        /(?<!\p{L})les\s+lecteurs\s+sont\s+([^.!?]*)/giu
+      ],
+      task: [
+        /(?<!\p{L})(analyse|analysez|crée|créez|génère|générez|résume|résumez|écris|écrivez|rédige|rédigez|développe|conçois|explique|expliquez|décris|décrivez|compare|comparez|évalue|évaluez|traduis|traduisez)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:ta|votre)\s+tâche\s+(?:est|consiste\s+à)\s+(?:de\s+)?([^.!?]*)/giu,
+        /(?<!\p{L})j'ai\s+besoin\s+que\s+(?:tu|vous)\s+([^.!?]*)/giu
+      ],
+      inputData: [
+        /(?<!\p{L})(?:données\s+d'entrée|texte\s+source|texte)\s*:\s*([^\n]*)/giu,
+        /(?<!\p{L})(?:voici|ci-dessous)\s+(?:le|la|les)?\s*(?:texte|données|document|article|courriel|e-mail|rapport)/giu
+      ],
+      constraints: [
+        /(?<!\p{L})n(?:e\s+|')\p{L}+\s+(?:pas|jamais|aucune?|rien)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:évite|évitez|jamais)\s+([^.!?]*)/giu,
+        /(?<!\p{L})pas\s+plus\s+de\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:au\s+)?maximum\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:assure-toi|assurez-vous|veille|veillez)\s+(?:que|à|de)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:utilise|utilisez)\s+(?:uniquement|seulement)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:contraintes|règles|exigences|limitations):\s*([^.!?]*)/giu
+      ],
+      style: [
+        /(?<!\p{L})(?:ton|style)\s*(?:doit\s+être|est|:)\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:sur\s+un|avec\s+un|dans\s+un)\s+(?:ton|style)\s+([^.!?]*)/giu,
+        /(?<!\p{L})(?:sois|soyez)\s+(amical|aimable|formel|professionnel|chaleureux|neutre|drôle|empathique)/giu
+      ],
+      examples: [
+        /(?<!\p{L})(?:par\s+exemple|exemple)\s*:?\s*([^.!?]*)/giu,
+        /(?<!\p{L})(?:entrée|sortie):\s*([^.!?]*)/giu,
+        /(?<!\p{L})voici\s+(?:un|quelques)\s+exemples?\s*:?\s*([^.!?]*)/giu,
+        /(?<!\p{L})exemple\s+\d+\s*:?\s*([^.!?]*)/giu
+      ],
+      outputFormat: [
+        /(?<!\p{L})(?:formate|formatez|structure|structurez|présente|présentez|renvoie|renvoyez)\s+(?:ta\s+réponse|votre\s+réponse|la\s+réponse|le\s+résultat|les\s+résultats)\s+(?:en|sous\s+forme\s+d(?:e\s+|'))([^.!?]*)/giu,
+        /(?<!\p{L})(?:réponds|répondez)\s+(?:en|avec|sous\s+forme\s+d(?:e\s+|'))([^.!?]*)/giu,
+        /(?<!\p{L})(?:au\s+)?format\s+(json|xml|csv|markdown|html|yaml)/giu,
+        /(?<!\p{L})(puces|liste\s+numérotée|un\s+tableau)/giu,
+        /(?<!\p{L})format\s+de\s+(?:sortie|réponse):\s*([^.!?]*)/giu
+      ]
+    },
+    keywords: ['tu es', 'vous êtes', 'analyse', 'crée', 'jamais', 'exemple', 'format']
+  }
+};
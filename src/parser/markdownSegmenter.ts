@@ -0,0 +1,457 @@
+/**
+ * Markdown Segmenter - Splits prompt text into headings, lists, block quotes, code fences and paragraphs
+ * Headings that name a POML component decide the section type of the content beneath them
+ */
+
+import type { ListItem, SectionType, TextBlock, TextBlockKind } from '../types';
+
+// Heading text (lowercased, without markup or numbering) that names a section type
+export const HEADING_SECTION_TYPES: Record<string, SectionType> = {
+  // English
+  role: 'role',
+  persona: 'role',
+  identity: 'role',
+  'system role': 'role',
+  'who you are': 'role',
+  context: 'context',
+  background: 'context',
+  'background information': 'context',
+  situation: 'context',
+  audience: 'audience',
+  'target audience': 'audience',
+  readers: 'audience',
+  'who this is for': 'audience',
+  task: 'task',
+  tasks: 'task',
+  'your task': 'task',
+  objective: 'task',
+  goal: 'task',
+  goals: 'task',
+  instruction: 'task',
+  instructions: 'task',
+  input: 'inputData',
+  'input data': 'inputData',
+  'input text': 'inputData',
+  data: 'inputData',
+  'source text': 'inputData',
+  document: 'inputData',
+  constraint: 'constraints',
+  constraints: 'constraints',
+  rules: 'constraints',
+  requirements: 'constraints',
+  restrictions: 'constraints',
+  limitations: 'constraints',
+  guidelines: 'constraints',
+  tone: 'style',
+  style: 'style',
+  'tone and style': 'style',
+  'tone & style': 'style',
+  'style guide': 'style',
+  voice: 'style',
+  example: 'examples',
+  examples: 'examples',
+  samples: 'examples',
+  'few-shot examples': 'examples',
+  demonstrations: 'examples',
+  format: 'outputFormat',
+  'output format': 'outputFormat',
+  'response format': 'outputFormat',
+  'output structure': 'outputFormat',
+  // German
+  rolle: 'role',
+  kontext: 'context',
+  hintergrund: 'context',
+  zielgruppe: 'audience',
+  aufgabe: 'task',
+  aufgaben: 'task',
+  ziel: 'task',
+  anweisungen: 'task',
+  eingabe: 'inputData',
+  eingabedaten: 'inputData',
+  daten: 'inputData',
+  einschränkungen: 'constraints',
+  regeln: 'constraints',
+  anforderungen: 'constraints',
+  vorgaben: 'constraints',
+  ton: 'style',
+  stil: 'style',
+  tonfall: 'style',
+  beispiel: 'examples',
+  beispiele: 'examples',
+  ausgabeformat: 'outputFormat',
+  antwortformat: 'outputFormat',
+  // Spanish
+  rol: 'role',
+  papel: 'role',
+  contexto: 'context',
+  antecedentes: 'context',
+  audiencia: 'audience',
+  público: 'audience',
+  'público objetivo': 'audience',
+  tarea: 'task',
+  objetivo: 'task',
+  instrucciones: 'task',
+  entrada: 'inputData',
+  datos: 'inputData',
+  'datos de entrada': 'inputData',
+  restricciones: 'constraints',
+  reglas: 'constraints',
+  requisitos: 'constraints',
+  tono: 'style',
+  estilo: 'style',
+  ejemplo: 'examples',
+  ejemplos: 'examples',
+  formato: 'outputFormat',
+  'formato de salida': 'outputFormat',
+  'formato de respuesta': 'outputFormat',
+  // French
+  rôle: 'role',
+  contexte: 'context',
+  public: 'audience',
+  'public cible': 'audience',
+  tâche: 'task',
+  objectif: 'task',
+  consignes: 'task',
+  entrée: 'inputData',
+  données: 'inputData',
+  "données d'entrée": 'inputData',
+  contraintes: 'constraints',
+  règles: 'constraints',
+  exigences: 'constraints',
+  exemple: 'examples',
+  exemples: 'examples',
+  'format de sortie': 'outputFormat',
+  'format de réponse': 'outputFormat',
+};
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const ATX_HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LABEL_LINE = /^\s{0,3}(?:\*\*|__)?(\p{L}[^:\n]{0,39}?)(?:\*\*|__)?\s*:\s*(?:\*\*|__)?\s*$/u;
+const BOLD_LINE = /^\s{0,3}(?:\*\*|__)([^*_\n]{1,40})(?:\*\*|__)\s*$/;
+const INLINE_LABEL = /^\s{0,3}(?:\*\*|__)?(\p{L}[^:\n]{0,39}?)(?:\*\*|__)?\s*:(?:\*\*|__)?[ \t]+(?=\S)/u;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,3}[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+
+// Label headings ("Constraints:") have no level, so they rank below every Markdown heading
+const LABEL_LEVEL = 7;
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Heading {
+  title: string;
+  level: number;
+  type?: SectionType;
+}
+
+interface Segment {
+  kind: TextBlockKind;
+  first: number; // index of the first line
+  last: number; // index of the last line, inclusive
+  heading?: Heading;
+  language?: string;
+}
+
+export class MarkdownSegmenter {
+  /**
+   * Split text into blocks; content under a heading that names a section type is kept together
+   */
+  public segment(text: string): TextBlock[] {
+    const lines = this.splitLines(text);
+    const segments = this.scan(lines);
+    const blocks: TextBlock[] = [];
+    let context: Heading | undefined;
+
+    let i = 0;
+    while (i < segments.length) {
+      const segment = segments[i];
+
+      if (segment.kind === 'heading' && segment.heading) {
+        const heading = segment.heading;
+        if (!heading.type) {
+          // Other headings only give context to the blocks that follow
+          context = heading;
+          i++;
+          continue;
+        }
+
+        let end = i + 1;
+        while (end < segments.length && !this.closesGroup(heading, segments[end], end - i - 1)) {
+          end++;
+        }
+        const body = segments.slice(i + 1, end);
+        if (body.length > 0) {
+          blocks.push(this.toBlock(text, lines, body, heading));
+        }
+        context = undefined;
+        i = end;
+        continue;
+      }
+
+      blocks.push(this.inlineLabelBlock(text, lines, segment) ?? this.toBlock(text, lines, [segment], context));
+      i++;
+    }
+
+    return blocks.filter(block => block.content.length > 0);
+  }
+
+  /**
+   * Section type named by a heading, e.g. "## Output format" or "Constraints:"
+   */
+  public headingType(title: string): SectionType | undefined {
+    return HEADING_SECTION_TYPES[this.normalizeHeading(title)];
+  }
+
+  private splitLines(text: string): Line[] {
+    const lines: Line[] = [];
+    let start = 0;
+
+    text.split('\n').forEach(raw => {
+      const lineText = raw.endsWith('\r') ? raw.slice(0, -1) : raw;
+      lines.push({ text: lineText, start, end: start + lineText.length });
+      start += raw.length + 1;
+    });
+
+    return lines;
+  }
+
+  /**
+   * Group lines into headings, fenced code, lists, quotes and paragraphs
+   */
+  private scan(lines: Line[]): Segment[] {
+    const segments: Segment[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const text = lines[i].text;
+      if (!text.trim() || RULE.test(text)) {
+        i++;
+        continue;
+      }
+
+      const fence = text.match(FENCE);
+      if (fence) {
+        let last = i + 1;
+        while (last < lines.length && !lines[last].text.trim().startsWith(fence[1])) {
+          last++;
+        }
+        last = Math.min(last, lines.length - 1);
+        segments.push({ kind: 'code', first: i, last, language: fence[2] || undefined });
+        i = last + 1;
+        continue;
+      }
+
+      const heading = this.matchHeading(text);
+      if (heading) {
+        segments.push({ kind: 'heading', first: i, last: i, heading });
+        i++;
+        continue;
+      }
+
+      if (LIST_ITEM.test(text)) {
+        const last = this.findListEnd(lines, i);
+        segments.push({ kind: 'list', first: i, last });
+        i = last + 1;
+        continue;
+      }
+
+      if (QUOTE.test(text)) {
+        let last = i;
+        while (last + 1 < lines.length && QUOTE.test(lines[last + 1].text)) {
+          last++;
+        }
+        segments.push({ kind: 'quote', first: i, last });
+        i = last + 1;
+        continue;
+      }
+
+      let last = i;
+      while (last + 1 < lines.length && this.continuesParagraph(lines[last + 1].text)) {
+        last++;
+      }
+      segments.push({ kind: 'paragraph', first: i, last });
+      i = last + 1;
+    }
+
+    return segments;
+  }
+
+  /**
+   * Last line of the list starting at `first`; indented lines and blank lines between items belong to it
+   */
+  private findListEnd(lines: Line[], first: number): number {
+    let last = first;
+    let next = first + 1;
+
+    while (next < lines.length) {
+      const text = lines[next].text;
+      if (text.trim() && !RULE.test(text) && (LIST_ITEM.test(text) || /^\s+\S/.test(text))) {
+        last = next;
+        next++;
+        continue;
+      }
+      if (!text.trim()) {
+        let lookahead = next + 1;
+        while (lookahead < lines.length && !lines[lookahead].text.trim()) {
+          lookahead++;
+        }
+        const following = lines[lookahead]?.text;
+        if (following !== undefined && (LIST_ITEM.test(following) || /^\s+\S/.test(following))) {
+          next = lookahead;
+          continue;
+        }
+      }
+      break;
+    }
+
+    return last;
+  }
+
+  private continuesParagraph(text: string): boolean {
+    return Boolean(text.trim()) &&
+      !RULE.test(text) &&
+      !FENCE.test(text) &&
+      !LIST_ITEM.test(text) &&
+      !QUOTE.test(text) &&
+      !this.matchHeading(text);
+  }
+
+  /**
+   * Markdown headings always count; label and bold lines only when they name a section type
+   */
+  private matchHeading(text: string): Heading | null {
+    const atx = text.match(ATX_HEADING);
+    if (atx) {
+      const title = this.cleanHeading(atx[2]);
+      return { title, level: atx[1].length, type: this.headingType(title) };
+    }
+
+    const label = text.match(LABEL_LINE) ?? text.match(BOLD_LINE);
+    if (label) {
+      const title = this.cleanHeading(label[1]);
+      const type = this.headingType(title);
+      if (type) {
+        return { title, level: LABEL_LEVEL, type };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * A typed group ends at the next typed heading or at a heading of the same or a higher level.
+   * A label heading such as "Rules:" also ends at the next paragraph after its first block.
+   */
+  private closesGroup(heading: Heading, segment: Segment, position: number): boolean {
+    if (segment.kind !== 'heading' || !segment.heading) {
+      return heading.level === LABEL_LEVEL && position > 0 && segment.kind === 'paragraph';
+    }
+    return Boolean(segment.heading.type) || segment.heading.level <= heading.level;
+  }
+
+  /**
+   * A paragraph opening with a label such as "Task: summarize ..." becomes a block of that type
+   */
+  private inlineLabelBlock(text: string, lines: Line[], segment: Segment): TextBlock | null {
+    if (segment.kind !== 'paragraph') return null;
+
+    const firstLine = lines[segment.first];
+    const label = firstLine.text.match(INLINE_LABEL);
+    const type = label ? this.headingType(label[1]) : undefined;
+    if (!label || !type) return null;
+
+    return {
+      ...this.span(text, firstLine.start + label[0].length, lines[segment.last].end),
+      kind: 'paragraph',
+      heading: this.cleanHeading(label[1]),
+      headingType: type
+    };
+  }
+
+  private toBlock(text: string, lines: Line[], segments: Segment[], heading?: Heading): TextBlock {
+    const first = segments[0];
+    const last = segments[segments.length - 1];
+    const kinds = new Set(segments.map(segment => segment.kind));
+    const listSegments = segments.filter(segment => segment.kind === 'list');
+
+    const block: TextBlock = {
+      ...this.span(text, lines[first.first].start, lines[last.last].end),
+      kind: kinds.size === 1 ? first.kind : 'mixed'
+    };
+
+    if (heading) {
+      block.heading = heading.title;
+      block.headingType = heading.type;
+    }
+    if (listSegments.length > 0) {
+      const items = listSegments.flatMap(segment => this.listItems(lines.slice(segment.first, segment.last + 1)));
+      block.list = { ordered: items.length > 0 && items.every(item => /^\d/.test(item.marker)), items };
+    }
+    if (segments.length === 1 && first.language) {
+      block.language = first.language;
+    }
+
+    return block;
+  }
+
+  /**
+   * List items with their nesting depth; indented continuation lines join the item above
+   */
+  private listItems(lines: Line[]): ListItem[] {
+    const items: ListItem[] = [];
+    const indents = lines
+      .map(line => line.text.match(LIST_ITEM))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => this.indentWidth(match[1]));
+    const baseIndent = indents.length > 0 ? Math.min(...indents) : 0;
+
+    lines.forEach(line => {
+      const match = line.text.match(LIST_ITEM);
+      if (match) {
+        items.push({
+          text: match[3].trim(),
+          depth: Math.floor((this.indentWidth(match[1]) - baseIndent) / 2),
+          marker: match[2]
+        });
+      } else if (line.text.trim() && items.length > 0) {
+        const previous = items[items.length - 1];
+        previous.text = `${previous.text} ${line.text.trim()}`;
+      }
+    });
+
+    return items;
+  }
+
+  private indentWidth(indent: string): number {
+    return indent.replace(/\t/g, '    ').length;
+  }
+
+  /**
+   * Trimmed content with offsets that still point into the original text
+   */
+  private span(text: string, start: number, end: number): Pick<TextBlock, 'content' | 'startIndex' | 'endIndex'> {
+    const raw = text.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const content = raw.trim();
+    return { content, startIndex: start + leading, endIndex: start + leading + content.length };
+  }
+
+  private cleanHeading(title: string): string {
+    return title.replace(/[*_`]/g, '').replace(/:\s*$/, '').trim();
+  }
+
+  private normalizeHeading(title: string): string {
+    return this.cleanHeading(title)
+      .toLowerCase()
+      .replace(/^(?:\d+|[a-z])[.)]\s+/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
+
+// Create singleton instance
+export const markdownSegmenter = new MarkdownSegmenter();
@@ -0,0 +1,145 @@
+/**
+ * Pattern Packs - User-defined detection patterns loaded from JSON
+ * Validates pack files and compiles their patterns for the PatternMatcher
+ */
+
+import type { PatternDefinition, PatternPack, SectionType } from '../types';
+
+export const PATTERN_PACK_FORMAT = 'poml-studio-pattern-pack';
+export const PATTERN_PACK_VERSION = 1;
+
+// Source recorded on matches produced by the analyzer's own patterns
+export const BUILT_IN_PATTERN_SOURCE = 'built-in';
+
+const PACK_SECTION_TYPES: ReadonlyArray<PatternDefinition['type']> = [
+  'role', 'context', 'audience', 'task', 'inputData', 'constraints', 'style', 'examples', 'outputFormat'
+];
+
+export interface CompiledPattern {
+  type: SectionType;
+  regex: RegExp;
+  weight: number;
+  keywords: string[];
+  source: string;
+}
+
+interface PatternPackFile extends PatternPack {
+  format?: string;
+}
+
+export class PatternPackLibrary {
+  /**
+   * Read and validate a pattern pack from JSON
+   */
+  public parsePatternPack(json: string): PatternPack {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Pattern pack is not valid JSON');
+    }
+
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new Error('Pattern pack must be a JSON object');
+    }
+    const file = data as Partial<PatternPackFile>;
+    if (file.format !== undefined && file.format !== PATTERN_PACK_FORMAT) {
+      throw new Error('File is not a POML Studio pattern pack');
+    }
+    if ((file.version ?? 0) > PATTERN_PACK_VERSION) {
+      throw new Error(`Pattern pack version ${file.version} is not supported`);
+    }
+    if (typeof file.name !== 'string' || !file.name.trim()) {
+      throw new Error('Pattern pack needs a name');
+    }
+    if (!Array.isArray(file.patterns) || file.patterns.length === 0) {
+      throw new Error('Pattern pack has no patterns');
+    }
+
+    return {
+      id: typeof file.id === 'string' && file.id.trim() ? file.id.trim() : this.slugify(file.name),
+      name: file.name.trim(),
+      description: typeof file.description === 'string' ? file.description : undefined,
+      version: PATTERN_PACK_VERSION,
+      enabled: true,
+      patterns: file.patterns.map((pattern, index) => this.validatePattern(pattern, index))
+    };
+  }
+
+  /**
+   * Serialize a pack for sharing; whether it is enabled stays local
+   */
+  public serializePatternPack(pack: PatternPack): string {
+    const file: PatternPackFile = {
+      format: PATTERN_PACK_FORMAT,
+      id: pack.id,
+      name: pack.name,
+      description: pack.description,
+      version: PATTERN_PACK_VERSION,
+      patterns: pack.patterns
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Compile the patterns of every enabled pack
+   */
+  public compilePatternPacks(packs: PatternPack[]): CompiledPattern[] {
+    return packs
+      .filter(pack => pack.enabled !== false)
+      .flatMap(pack => pack.patterns.map(pattern => ({
+        type: pattern.type,
+        regex: this.compileRegex(pattern),
+        weight: pattern.weight ?? 1,
+        keywords: (pattern.keywords ?? []).map(keyword => keyword.toLowerCase()),
+        source: pack.id
+      })));
+  }
+
+  private validatePattern(value: unknown, index: number): PatternDefinition {
+    const pattern = (value ?? {}) as Partial<PatternDefinition>;
+    const label = `Pattern ${index + 1} in the pack`;
+
+    if (!PACK_SECTION_TYPES.includes(pattern.type as PatternDefinition['type'])) {
+      throw new Error(`${label} has unknown section type '${String(pattern.type)}'`);
+    }
+    if (typeof pattern.pattern !== 'string' || !pattern.pattern) {
+      throw new Error(`${label} has no pattern`);
+    }
+    if (pattern.weight !== undefined && (typeof pattern.weight !== 'number' || pattern.weight < 0)) {
+      throw new Error(`${label} has an invalid weight`);
+    }
+    if (pattern.keywords !== undefined &&
+        (!Array.isArray(pattern.keywords) || pattern.keywords.some(keyword => typeof keyword !== 'string'))) {
+      throw new Error(`${label} has invalid keywords`);
+    }
+
+    const definition: PatternDefinition = {
+      type: pattern.type as PatternDefinition['type'],
+      pattern: pattern.pattern,
+      flags: typeof pattern.flags === 'string' ? pattern.flags : undefined,
+      weight: pattern.weight,
+      keywords: pattern.keywords,
+      description: typeof pattern.description === 'string' ? pattern.description : undefined
+    };
+
+    try {
+      this.compileRegex(definition);
+    } catch (error) {
+      throw new Error(`${label} is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return definition;
+  }
+
+  private compileRegex(pattern: PatternDefinition): RegExp {
+    const flags = pattern.flags ?? 'gi';
+    return new RegExp(pattern.pattern, flags.includes('g') ? flags : `${flags}g`);
+  }
+
+  private slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pattern-pack';
+  }
+}
+
+// Create singleton instance
+export const patternPackLibrary = new PatternPackLibrary();
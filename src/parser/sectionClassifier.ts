@@ -0,0 +1,98 @@
+/**
+ * Section Classifier - Multinomial naive Bayes over word unigrams and bigrams
+ * Trained locally on the bundled corpus plus the user's corrected sections; catches paraphrases the patterns miss
+ */
+
+import type { ClassifierPrediction, LabelledExample, SectionType } from '../types';
+import { SECTION_TYPES } from '../utils/constants';
+import { CLASSIFIER_CORPUS } from './classifierCorpus';
+
+// Source recorded on matches produced by the classifier
+export const CLASSIFIER_SOURCE = 'classifier';
+
+const SMOOTHING = 0.5; // additive smoothing of feature counts
+const SHARPNESS = 3; // scales the per-feature log likelihood before normalizing into probabilities
+
+export class SectionClassifier {
+  private featureCounts = new Map<SectionType, Map<string, number>>();
+  private totalCounts = new Map<SectionType, number>();
+  private vocabulary = new Set<string>();
+  private examples: LabelledExample[] = [];
+
+  constructor(examples: readonly LabelledExample[] = []) {
+    SECTION_TYPES.forEach(type => {
+      this.featureCounts.set(type, new Map());
+      this.totalCounts.set(type, 0);
+    });
+    this.train(examples);
+  }
+
+  /**
+   * Add labelled examples to the model; naive Bayes counts make training incremental
+   */
+  public train(examples: readonly LabelledExample[]): void {
+    examples.forEach(example => {
+      const counts = this.featureCounts.get(example.type);
+      if (!counts) return;
+
+      const features = this.extractFeatures(example.text);
+      features.forEach(feature => {
+        counts.set(feature, (counts.get(feature) ?? 0) + 1);
+        this.vocabulary.add(feature);
+      });
+      this.totalCounts.set(example.type, (this.totalCounts.get(example.type) ?? 0) + features.length);
+      this.examples.push(example);
+    });
+  }
+
+  /**
+   * A new classifier trained on this one's examples plus `examples`
+   */
+  public withExamples(examples: readonly LabelledExample[]): SectionClassifier {
+    const classifier = new SectionClassifier(this.examples);
+    classifier.train(examples);
+    return classifier;
+  }
+
+  /**
+   * Most likely section type of `text`, or null when it shares no features with the training data
+   */
+  public classify(text: string): ClassifierPrediction | null {
+    const features = this.extractFeatures(text).filter(feature => this.vocabulary.has(feature));
+    if (features.length === 0) return null;
+
+    // Classes are treated as equally likely a priori, so the corpus balance does not bias predictions
+    const vocabularySize = this.vocabulary.size;
+    const scores = SECTION_TYPES.map(type => {
+      const counts = this.featureCounts.get(type)!;
+      const denominator = (this.totalCounts.get(type) ?? 0) + SMOOTHING * vocabularySize;
+      const logLikelihood = features.reduce(
+        (sum, feature) => sum + Math.log(((counts.get(feature) ?? 0) + SMOOTHING) / denominator),
+        0
+      );
+      return SHARPNESS * logLikelihood / features.length;
+    });
+
+    const max = Math.max(...scores);
+    const exps = scores.map(score => Math.exp(score - max));
+    const total = exps.reduce((sum, value) => sum + value, 0);
+    const probabilities = Object.fromEntries(
+      SECTION_TYPES.map((type, index) => [type, exps[index] / total])
+    ) as Record<SectionType, number>;
+
+    const best = SECTION_TYPES.reduce((top, type) => probabilities[type] > probabilities[top] ? type : top);
+    return { type: best, probability: probabilities[best], probabilities };
+  }
+
+  /**
+   * Lowercased word unigrams and bigrams
+   */
+  private extractFeatures(text: string): string[] {
+    const words = text.toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) ?? [];
+    const bigrams = words.slice(1).map((word, index) => `${words[index]} ${word}`);
+    return [...words, ...bigrams];
+  }
+}
+
+// Classifier trained on the bundled corpus only
+export const sectionClassifier = new SectionClassifier(CLASSIFIER_CORPUS);
@@ -0,0 +1,110 @@
+/**
+ * Section Explainer - Explains why a section got its type and confidence
+ * Combines the evidence recorded during analysis with the confidence scorer's factors
+ */
+
+import type { DetectedSection, LearnedState, PatternEvidence, PatternMatch, SectionExplanation } from '../types';
+import { SECTION_TYPE_LABELS } from '../utils/constants';
+import { ConfidenceScorer } from './confidenceScorer';
+import { BUILT_IN_PATTERN_SOURCE } from './patternPacks';
+import { CLASSIFIER_SOURCE } from './sectionClassifier';
+
+// Prefixes of the patterns the analyzer records for matches that come from no regular expression
+const HEADING_PREFIX = 'heading: ';
+const DIALOGUE_PREFIX = 'dialogue: ';
+const CLASSIFIER_PREFIX = `${CLASSIFIER_SOURCE}: `;
+
+export class SectionExplainer {
+  private scorer = new ConfidenceScorer();
+
+  /**
+   * Explanation of `section` as detected in `text`; `learnedState` feeds the scorer's feedback factor
+   */
+  public explain(section: DetectedSection, text: string, learnedState?: LearnedState): SectionExplanation {
+    this.scorer.setLearnedState(learnedState);
+    const { confidence, factors } = this.scorer.explainSectionConfidence(section, text);
+    const candidates = section.candidates ?? [];
+
+    return {
+      sectionId: section.id,
+      type: section.type,
+      confidence: section.confidence,
+      summary: this.summarize(section),
+      evidence: this.collectEvidence(section),
+      score: candidates.find(candidate => candidate.type === section.type),
+      factors,
+      scorerConfidence: Math.round(confidence * 100),
+      competitors: candidates.filter(candidate => candidate.type !== section.type)
+    };
+  }
+
+  /**
+   * Readable form of a regular expression, e.g. /you\s+are\s+(?:a|an)?\s*([^.!?]*)/gi becomes "you are [a/an] …"
+   */
+  public describePattern(pattern: string): string {
+    if (pattern.startsWith(HEADING_PREFIX)) return `Heading "${pattern.slice(HEADING_PREFIX.length)}"`;
+    if (pattern.startsWith(DIALOGUE_PREFIX)) return `Transcript of ${pattern.slice(DIALOGUE_PREFIX.length)}`;
+    if (pattern.startsWith(CLASSIFIER_PREFIX)) return 'Wording resembles the classifier\'s training examples';
+
+    const source = pattern.match(/^\/(.*)\/[a-z]*$/s)?.[1] ?? pattern;
+    return source
+      .replace(/\\s[+*]?/g, ' ')
+      .replace(/\(\[\^[^\]]*\][*+]\)|\[\^[^\]]*\][*+]|\\w[+*]|\.[+*]/g, '…')
+      .replace(/\\d[+*]?/g, '#')
+      .replace(/\[[^\]]*\][?*+]?/g, '')
+      .replace(/\\b|\^|\$/g, '')
+      .replace(/\(\?:/g, '(')
+      .replace(/\(([^()]*)\)\?/g, '[$1]')
+      .replace(/\{\d+(,\d*)?\}|(?<!\\)[?*+]/g, '')
+      .replace(/(?<!\\)[()]/g, '')
+      .replace(/\|/g, '/')
+      .replace(/\\(.)/g, '$1')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * One sentence on what decided the section's type
+   */
+  private summarize(section: DetectedSection): string {
+    const label = SECTION_TYPE_LABELS[section.type];
+    const [pattern = ''] = section.patterns ?? [];
+
+    if (section.metadata?.userCorrected) return `You marked this section as ${label}.`;
+    if (pattern.startsWith(HEADING_PREFIX)) return `Its heading names it as ${label}.`;
+    if (pattern.startsWith(DIALOGUE_PREFIX)) return `It reads as a conversation, which is generated as ${label}.`;
+    if (pattern.startsWith(CLASSIFIER_PREFIX)) return `No pattern matched, but its wording resembles other ${label} sections.`;
+
+    const matches = section.spans?.length ?? 0;
+    return matches > 0
+      ? `It matched ${matches} ${label} ${matches === 1 ? 'pattern' : 'patterns'}, scoring above any other type.`
+      : `${label} scored highest for this block.`;
+  }
+
+  /**
+   * The matches behind the section's type, strongest first
+   */
+  private collectEvidence(section: DetectedSection): PatternEvidence[] {
+    if (section.spans && section.spans.length > 0) {
+      return [...section.spans]
+        .sort((a, b) => b.confidence - a.confidence)
+        .map((span: PatternMatch) => ({
+          pattern: span.matchedPatterns.map(pattern => this.describePattern(pattern)).join('; '),
+          matchedText: span.matchedText,
+          source: span.source ?? BUILT_IN_PATTERN_SOURCE,
+          score: Math.round(span.confidence * 100)
+        }));
+    }
+
+    return (section.patterns ?? []).map(pattern => ({
+      pattern: this.describePattern(pattern),
+      matchedText: pattern.startsWith(HEADING_PREFIX) ? pattern.slice(HEADING_PREFIX.length) : '',
+      source: pattern.startsWith(HEADING_PREFIX) ? 'heading'
+        : pattern.startsWith(DIALOGUE_PREFIX) ? 'dialogue'
+          : pattern.startsWith(CLASSIFIER_PREFIX) ? CLASSIFIER_SOURCE : BUILT_IN_PATTERN_SOURCE
+    }));
+  }
+}
+
+// Create singleton instance
+export const sectionExplainer = new SectionExplainer();
@@ -3,11 +3,12 @@
  * Handles block identification, context preservation, and overlap resolution
  */
 
-import type { DetectedSection, SectionType } from '../types';
+import type { DetectedSection, ParsingConfig, SectionType } from '../types';
 import { TextAnalyzer } from './textAnalyzer';
+import { markdownSegmenter } from './markdownSegmenter';
 
 export interface SectionExtractionOptions {
-  minConfidenceThreshold?: number;
+  minConfidenceThreshold?: number; // 0-100, replaces the configured thresholds for every type
   resolveOverlaps?: boolean;
   preserveContext?: boolean;
   maxSectionsPerType?: number;
@@ -16,8 +17,15 @@ export interface SectionExtractionOptions {
 export class SectionExtractor {
   private textAnalyzer: TextAnalyzer;
 
-  constructor() {
-    this.textAnalyzer = new TextAnalyzer();
+  constructor(config: Partial<ParsingConfig> = {}) {
+    this.textAnalyzer = new TextAnalyzer(config);
+  }
+
+  /**
+   * Update sensitivity, confidence thresholds, pattern packs and learned weights of the underlying analyzer
+   */
+  public configure(config: Partial<ParsingConfig>): void {
+    this.textAnalyzer.configure(config);
   }
 
   /**
@@ -36,7 +44,7 @@ export class SectionExtractor {
     };
   }> {
     const {
-      minConfidenceThreshold = 30,
+      minConfidenceThreshold,
       resolveOverlaps = true,
       preserveContext = true,
       maxSectionsPerType = 3
@@ -45,9 +53,9 @@ export class SectionExtractor {
     // Get initial analysis
     const analysisResult = await this.textAnalyzer.analyzeText(text);
     
-    // Filter by confidence threshold
+    // Filter by confidence threshold, the configured one of each type unless the caller gives one
     let sections = analysisResult.sections.filter(
-      section => section.confidence >= minConfidenceThreshold
+      section => section.confidence >= (minConfidenceThreshold ?? this.textAnalyzer.getConfidenceThreshold(section.type))
     );
 
     // Preserve context by expanding section boundaries
@@ -142,6 +150,11 @@ export class SectionExtractor {
    */
   private expandSectionBoundaries(sections: DetectedSection[], text: string): DetectedSection[] {
     return sections.map(section => {
+      // Headings, lists, quotes and code fences already have exact boundaries
+      if (section.metadata?.heading || ['list', 'quote', 'code', 'mixed'].includes(section.metadata?.blockKind)) {
+        return section;
+      }
+
       const words = text.substring(section.startIndex, section.endIndex).split(/\s+/);
       
       // Expand to sentence boundaries
@@ -249,6 +262,7 @@ export class SectionExtractor {
       startIndex,
       endIndex,
       patterns: [...section1.patterns, ...section2.patterns],
+      spans: [...(section1.spans ?? []), ...(section2.spans ?? [])].sort((a, b) => a.startIndex - b.startIndex),
       metadata: {
         mergedSections: [section1.id, section2.id],
         mergedAt: new Date().toISOString()
@@ -316,8 +330,8 @@ export class SectionExtractor {
    * Count the number of logical blocks in text
    */
   private countTextBlocks(text: string): number {
-    const paragraphs = text.split(/\n\s*\n/).filter(p => p.trim());
-    if (paragraphs.length > 1) return paragraphs.length;
+    const blocks = markdownSegmenter.segment(text);
+    if (blocks.length > 1) return blocks.length;
     
     const sentences = text.split(/[.!?]+\s+/).filter(s => s.trim());
     return sentences.length;
@@ -337,8 +351,12 @@ export class SectionExtractor {
       averageSectionsPerExtraction: 0,
       typeDistribution: {
         role: 0,
+        context: 0,
+        audience: 0,
         task: 0,
+        inputData: 0,
         constraints: 0,
+        style: 0,
         examples: 0,
         outputFormat: 0,
         unknown: 0
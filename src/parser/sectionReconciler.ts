@@ -0,0 +1,232 @@
+/**
+ * Section Reconciler - Carries sections over from one analysis of a text to the next
+ * A section whose source block is unchanged keeps its ID, type, confidence and any user edits;
+ * after a config change it takes the new type and confidence but still keeps what the user edited.
+ * Spans the user marked in the editor are ground truth: they survive every analysis and the
+ * analyzed sections give up the text they cover
+ */
+
+import type { DetectedSection, PatternMatch, SectionType } from '../types';
+import { generateId, sectionsOverlap } from '../utils/helpers';
+
+// Characters at each end of a marked span that find it again after the user edited inside it
+const SPAN_ANCHOR_LENGTH = 16;
+
+export class SectionReconciler {
+  /**
+   * `next` with every section of an unchanged block replaced by its previous version, moved to
+   * where the block now sits; sections of new or changed blocks come through as analyzed.
+   * With `rescored`, the previous version only contributes the user's corrections.
+   * The user's marked spans of `previous` are kept, followed to where their text now sits in `text`
+   */
+  public reconcile(previous: DetectedSection[], next: DetectedSection[], text: string, rescored = false): DetectedSection[] {
+    const marked = previous
+      .filter(section => this.isMarked(section))
+      .map(section => this.relocate(section, text))
+      .filter((section): section is DetectedSection => section !== null);
+    const previousById = new Map(previous.filter(section => !this.isMarked(section)).map(section => [section.id, section]));
+
+    const reconciled = next.map(section => {
+      const kept = previousById.get(section.id);
+      const blockHash = section.metadata?.blockHash;
+      if (!kept || !blockHash || kept.metadata?.blockHash !== blockHash) return section;
+
+      // A piece left over from a marked span is cut again from the whole block; only a type correction carries over
+      if (kept.metadata?.trimmed) {
+        return kept.metadata.userCorrected
+          ? { ...section, type: kept.type, confidence: kept.confidence, metadata: { ...section.metadata, userCorrected: true } }
+          : section;
+      }
+      if (!rescored || kept.metadata?.userCorrected) return this.moveSection(kept, section);
+      // The block is unchanged, so different content can only be the user's edit
+      return { ...section, content: kept.content };
+    });
+
+    return this.applyMarkedSpans(reconciled, marked, text);
+  }
+
+  /**
+   * `sections` with `text` from `startIndex` to `endIndex` marked as a section of `type`. Marked spans
+   * it overlaps are replaced; other sections give up the marked text
+   */
+  public markSpan(sections: DetectedSection[], type: SectionType, startIndex: number, endIndex: number, text: string): DetectedSection[] {
+    const span = this.trimRange(text, startIndex, endIndex);
+    if (!span) return sections;
+
+    return this.addMarkedSection(sections, {
+      id: `manual-${generateId()}`,
+      type,
+      content: text.slice(span.startIndex, span.endIndex),
+      confidence: 100,
+      startIndex: span.startIndex,
+      endIndex: span.endIndex,
+      metadata: { manual: true, userCorrected: true }
+    }, text);
+  }
+
+  /**
+   * `sections` with the section `sectionId` moved to new boundaries. The result is a marked span,
+   * so the next analysis keeps the boundaries the user chose
+   */
+  public resizeSection(sections: DetectedSection[], sectionId: string, startIndex: number, endIndex: number, text: string): DetectedSection[] {
+    const section = sections.find(candidate => candidate.id === sectionId);
+    const span = this.trimRange(text, Math.min(startIndex, endIndex), Math.max(startIndex, endIndex));
+    if (!section || !span) return sections;
+
+    const isInside = (match: { startIndex: number; endIndex: number }) =>
+      match.startIndex >= span.startIndex && match.endIndex <= span.endIndex;
+
+    return this.addMarkedSection(sections.filter(other => other.id !== sectionId), {
+      ...section,
+      id: this.isMarked(section) ? section.id : `manual-${generateId()}`,
+      content: text.slice(span.startIndex, span.endIndex),
+      confidence: 100,
+      startIndex: span.startIndex,
+      endIndex: span.endIndex,
+      spans: section.spans?.filter(isInside),
+      dialogue: undefined,
+      metadata: { ...section.metadata, manual: true, userCorrected: true, trimmed: undefined }
+    }, text);
+  }
+
+  /**
+   * Whether the user marked the section's span in the editor
+   */
+  public isMarked(section: DetectedSection): boolean {
+    return section.metadata?.manual === true;
+  }
+
+  /**
+   * `sections` plus `marked`, which replaces the marked spans it overlaps and cuts the rest
+   */
+  private addMarkedSection(sections: DetectedSection[], marked: DetectedSection, text: string): DetectedSection[] {
+    const kept = sections.filter(section => !(this.isMarked(section) && sectionsOverlap(section, marked)));
+
+    return this.applyMarkedSpans(
+      kept.filter(section => !this.isMarked(section)),
+      [...kept.filter(section => this.isMarked(section)), marked],
+      text
+    );
+  }
+
+  /**
+   * Analyzed `sections` cut around the `marked` spans, merged with them in text order
+   */
+  private applyMarkedSpans(sections: DetectedSection[], marked: DetectedSection[], text: string): DetectedSection[] {
+    if (marked.length === 0) return sections;
+
+    return [...sections.flatMap(section => this.cutAround(section, marked, text)), ...marked]
+      .sort((a, b) => a.startIndex - b.startIndex);
+  }
+
+  /**
+   * The parts of `section` outside the `marked` spans, each a section of its own. The first part
+   * keeps the section's ID
+   */
+  private cutAround(section: DetectedSection, marked: DetectedSection[], text: string): DetectedSection[] {
+    const overlapping = marked
+      .filter(span => sectionsOverlap(span, section))
+      .sort((a, b) => a.startIndex - b.startIndex);
+    if (overlapping.length === 0) return [section];
+
+    const ranges: Array<{ startIndex: number; endIndex: number }> = [];
+    let cursor = section.startIndex;
+    overlapping.forEach(span => {
+      const range = this.trimRange(text, cursor, Math.min(span.startIndex, section.endIndex));
+      if (range) ranges.push(range);
+      cursor = Math.max(cursor, span.endIndex);
+    });
+    const tail = this.trimRange(text, cursor, section.endIndex);
+    if (tail) ranges.push(tail);
+
+    return ranges.map((range, index) => ({
+      ...section,
+      id: index === 0 ? section.id : `${section.id}-part${index + 1}`,
+      content: text.slice(range.startIndex, range.endIndex),
+      startIndex: range.startIndex,
+      endIndex: range.endIndex,
+      spans: section.spans?.filter(span => span.startIndex >= range.startIndex && span.endIndex <= range.endIndex),
+      dialogue: undefined,
+      metadata: { ...section.metadata, trimmed: true }
+    }));
+  }
+
+  /**
+   * A marked span moved to where its text now sits, or null when the text is gone. A span edited
+   * inside is found by the text it starts and ends with
+   */
+  private relocate(section: DetectedSection, text: string): DetectedSection | null {
+    const { content } = section;
+    const move = (startIndex: number, endIndex: number): DetectedSection =>
+      ({ ...section, content: text.slice(startIndex, endIndex), startIndex, endIndex });
+
+    if (text.slice(section.startIndex, section.endIndex) === content) return section;
+
+    const startIndex = this.nearestIndexOf(text, content, section.startIndex);
+    if (startIndex >= 0) return move(startIndex, startIndex + content.length);
+
+    const opening = content.slice(0, SPAN_ANCHOR_LENGTH);
+    const closing = content.slice(-SPAN_ANCHOR_LENGTH);
+    const openingIndex = this.nearestIndexOf(text, opening, section.startIndex);
+    const closingIndex = openingIndex < 0 ? -1 : text.indexOf(closing, openingIndex);
+    const endIndex = closingIndex + closing.length;
+    // Anchors further apart than the edit could plausibly have moved them belong to different text
+    if (closingIndex < 0 || endIndex - openingIndex > content.length * 2 + SPAN_ANCHOR_LENGTH) return null;
+    return move(openingIndex, endIndex);
+  }
+
+  /**
+   * Index of the occurrence of `needle` in `text` closest to `near`, or -1
+   */
+  private nearestIndexOf(text: string, needle: string, near: number): number {
+    let nearest = -1;
+    for (let index = text.indexOf(needle); index >= 0; index = text.indexOf(needle, index + 1)) {
+      if (nearest < 0 || Math.abs(index - near) < Math.abs(nearest - near)) nearest = index;
+      if (index > near) break;
+    }
+    return nearest;
+  }
+
+  /**
+   * The range without its leading and trailing whitespace, or null when nothing else is left
+   */
+  private trimRange(text: string, startIndex: number, endIndex: number): { startIndex: number; endIndex: number } | null {
+    const slice = text.slice(startIndex, endIndex);
+    const leading = slice.length - slice.trimStart().length;
+    const trimmed = slice.trim();
+    return trimmed ? { startIndex: startIndex + leading, endIndex: startIndex + leading + trimmed.length } : null;
+  }
+
+  /**
+   * `kept` at the position of `section`, the same block in the new text
+   */
+  private moveSection(kept: DetectedSection, section: DetectedSection): DetectedSection {
+    const shift = section.startIndex - kept.startIndex;
+    const moveSpan = (span: PatternMatch): PatternMatch => ({
+      ...span,
+      startIndex: span.startIndex + shift,
+      endIndex: span.endIndex + shift
+    });
+
+    return {
+      ...kept,
+      startIndex: section.startIndex,
+      endIndex: section.endIndex,
+      ...(kept.spans && { spans: kept.spans.map(moveSpan) }),
+      ...(kept.dialogue && {
+        dialogue: {
+          ...kept.dialogue,
+          turns: kept.dialogue.turns.map(turn => ({
+            ...turn,
+            startIndex: turn.startIndex + shift,
+            endIndex: turn.endIndex + shift
+          }))
+        }
+      }),
+      metadata: { ...kept.metadata, blockIndex: section.metadata?.blockIndex }
+    };
+  }
+}
+
+// Create singleton instance
+export const sectionReconciler = new SectionReconciler();
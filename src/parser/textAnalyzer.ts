@@ -3,11 +3,59 @@
  * Implements pattern-based detection with confidence scoring for POML components
  */
 
-import type { DetectedSection, SectionType, PatternMatch, AnalysisResult } from '../types';
+import type {
+  DetectedSection,
+  SectionType,
+  PatternMatch,
+  SectionCandidate,
+  ScoreAdjustment,
+  AnalysisResult,
+  AnalysisRunOptions,
+  TextBlock,
+  ParsingConfig,
+  LearnedState,
+  PromptLanguage
+} from '../types';
+import { markdownSegmenter } from './markdownSegmenter';
+import { BUILT_IN_PATTERN_SOURCE, patternPackLibrary, type CompiledPattern } from './patternPacks';
+import { EMPTY_LEARNED_STATE, feedbackLearner } from './feedbackLearner';
+import { CLASSIFIER_SOURCE, sectionClassifier, type SectionClassifier } from './sectionClassifier';
+import { languageDetector } from './languageDetector';
+import { LANGUAGE_PATTERNS } from './languagePatterns';
+import { dialogueDetector } from './dialogueDetector';
+import { variableDetector } from './variableDetector';
+import { hashText } from '../utils/helpers';
+import { PARSING_CONFIG } from '../utils/constants';
+
+// Keywords that raise the score of a built-in pattern match
+const ENGLISH_KEYWORDS = ['you are', 'analyze', 'create', 'don\'t', 'example', 'format'];
+
+// Confidence given to a block whose heading names its section type
+const HEADING_CONFIDENCE = 0.95;
+
+// Long runs hand control back to the event loop this often, so progress shows and cancellation gets through
+const YIELD_INTERVAL_MS = 50;
+// Share of the progress spent matching blocks; context analysis and scoring take the rest
+const MATCHING_PROGRESS = 90;
+
+// Pattern matches are kept for this many distinct blocks, so re-analysis only matches the blocks that changed
+const MAX_CACHED_BLOCKS = 500;
+
+// Confidence given to a block that reads as a chat transcript or Q/A pairs
+const DIALOGUE_CONFIDENCE = 0.9;
+
+// Share of the classifier's probability in the score of a pattern match
+const CLASSIFIER_BLEND = 0.4;
+// The classifier proposes a type on its own only above this probability, scaled below a strong pattern match
+const CLASSIFIER_MIN_PROBABILITY = 0.5;
+const CLASSIFIER_WEIGHT = 0.8;
 
 // Import individual components
 interface PatternMatcherInterface {
-  matchPatterns(text: string): PatternMatch[];
+  matchPatterns(text: string, language?: PromptLanguage): PatternMatch[];
+  setCustomPatterns(patterns: CompiledPattern[]): void;
+  setLearnedState(state: LearnedState | undefined): void;
+  setMatchThreshold(threshold: number): void;
   getPatternStats(): Record<SectionType, number>;
 }
 
@@ -19,7 +67,6 @@ interface ConfidenceScorerInterface {
 interface ContextAnalyzerInterface {
   analyzeContext(matches: any[], fullText: string): any[];
   analyzeWithContext(text: string, before: string, after: string, patterns: PatternMatch[]): any;
-  learnFromFeedback(text: string, oldType: SectionType, newType: SectionType, wasCorrect: boolean): void;
   getTotalAnalyses(): number;
   getAverageProcessingTime(): number;
 }
@@ -38,6 +85,20 @@ class PatternMatcher implements PatternMatcherInterface {
       /your\s+role\s+is\s+(?:to\s+)?([^.!?]*)/gi,
       /you\s+will\s+be\s+acting\s+as\s*([^.!?]*)/gi
     ],
+    context: [
+      /(?:background|context)\s*:\s*([^.!?]*)/gi,
+      /(?:for\s+context|some\s+background|as\s+background|by\s+way\s+of\s+background)\s*[,:]?\s*([^.!?]*)/gi,
+      /our\s+(?:company|team|product|project|organization|client)\s+(?:is|was|has|uses|sells|builds|provides)\s+([^.!?]*)/gi,
+      /(?:currently|at\s+the\s+moment|right\s+now),?\s+(?:we|i|our\s+\w+)\s+([^.!?]*)/gi,
+      /the\s+(?:situation|background)\s+is\s+(?:that\s+)?([^.!?]*)/gi
+    ],
+    audience: [
+      /(?:target\s+)?audience\s*(?:is|are|:|will\s+be|consists\s+of)\s*([^.!?]*)/gi,
+      /(?:written|intended|aimed|tailored)\s+(?:for|at)\s+([^.!?]*)/gi,
+      /(?:the\s+)?readers?\s+(?:are|is|will\s+be)\s+([^.!?]*)/gi,
+      /(?:for|to)\s+(?:a\s+)?(?:non-technical|technical|beginner|expert|general|young|senior)\s+(?:audience|readers?|users?|readership)/gi,
+      /(?:explain|write)\s+(?:it\s+)?(?:as\s+if|like)\s+(?:to|for|i'm|i\s+am|you're\s+talking\s+to)\s+([^.!?]*)/gi
+    ],
     task: [
       /(?:please\s+)?(analyze|create|generate|summarize|write|develop|design|build|implement|explain|describe|compare|evaluate|assess|review)\s+([^.!?]*)/gi,
       /your\s+task\s+is\s+to\s+([^.!?]*)/gi,
@@ -45,6 +106,15 @@ class PatternMatcher implements PatternMatcherInterface {
       /(?:can\s+you\s+)?(?:help\s+me\s+)?([^.!?]*\b(?:analyze|create|generate|write|develop|design|build|implement)\b[^.!?]*)/gi,
       /complete\s+the\s+following\s+([^.!?]*)/gi
     ],
+    inputData: [
+      /(?:input\s+data|input\s+text|source\s+text|text\s+to\s+(?:analyze|summarize|translate|classify))\s*:\s*([^\n]*)/gi,
+      /(?:here\s+is|here's|below\s+is|the\s+following\s+is)\s+(?:the\s+)?(?:text|data|document|article|transcript|email|report|input|dataset|log)\b/gi,
+      /"""([\s\S]*?)"""/gi,
+      /<(text|data|document|input)>[\s\S]*?<\/\1>/gi,
+      /^(?:```|~~~)[\s\S]*(?:```|~~~)$/gi,
+      /^\s*[[{][\s\S]*[\]}]\s*$/gi,
+      /^(?:[^,\n]+,){2,}[^,\n]+(?:\n(?:[^,\n]+,){2,}[^,\n]+)+$/gi
+    ],
     constraints: [
       /(?:don't|do\s+not|avoid|never|must\s+not)\s+([^.!?]*)/gi,
       /within\s+(\d+)\s+(words?|characters?|sentences?|paragraphs?)/gi,
@@ -54,6 +124,13 @@ class PatternMatcher implements PatternMatcherInterface {
       /(?:requirements?|constraints?|limitations?|restrictions?):\s*([^.!?]*)/gi,
       /keep\s+it\s+(simple|brief|concise|short|under\s+\d+)/gi
     ],
+    style: [
+      /(?:tone|style|voice)\s*(?:should\s+be|must\s+be|is|:)\s*([^.!?]*)/gi,
+      /(?:use|adopt|keep|maintain|write\s+in|respond\s+in)\s+(?:a|an)\s+([^.!?]*?)\s+(?:tone|style|voice)/gi,
+      /(?:in|with)\s+a\s+([^.!?]*?)\s+(?:tone|style|voice)/gi,
+      /(?:be|sound)\s+(friendly|formal|informal|casual|professional|playful|empathetic|enthusiastic|neutral|humorous|warm|authoritative)\b/gi,
+      /(?:write|respond|answer)\s+(formally|informally|casually|professionally|playfully|warmly)/gi
+    ],
     examples: [
       /(?:for\s+example|example|such\s+as|like|including)\s*:?\s*([^.!?]*)/gi,
       /(?:input|output|sample):\s*([^.!?]*)/gi,
@@ -73,52 +150,129 @@ class PatternMatcher implements PatternMatcherInterface {
 
   private patternStats: Record<SectionType, number> = {
     role: 0,
+    context: 0,
+    audience: 0,
     task: 0,
+    inputData: 0,
     constraints: 0,
+    style: 0,
     examples: 0,
     outputFormat: 0,
     unknown: 0
   };
 
-  public matchPatterns(text: string): PatternMatch[] {
+  private customPatterns: CompiledPattern[] = [];
+  private learnedState?: LearnedState;
+  private matchThreshold = 1 - PARSING_CONFIG.DEFAULT_SENSITIVITY / 100;
+
+  /**
+   * Replace the patterns contributed by pattern packs
+   */
+  public setCustomPatterns(patterns: CompiledPattern[]): void {
+    this.customPatterns = patterns;
+  }
+
+  /**
+   * Weights learned from user feedback, applied to every match score
+   */
+  public setLearnedState(state: LearnedState | undefined): void {
+    this.learnedState = state;
+  }
+
+  /**
+   * Score (0-1) a match has to exceed to be kept
+   */
+  public setMatchThreshold(threshold: number): void {
+    this.matchThreshold = threshold;
+  }
+
+  /**
+   * Find every occurrence of every pattern, with its offsets and capture groups in `text`.
+   * English patterns always run, since prompts often mix in English terms; those of `language` run as well.
+   */
+  public matchPatterns(text: string, language: PromptLanguage = 'en'): PatternMatch[] {
     const matches: PatternMatch[] = [];
-    const lowerText = text.toLowerCase();
+    const languagePatterns = LANGUAGE_PATTERNS[language];
+    const keywords = [...ENGLISH_KEYWORDS, ...(languagePatterns?.keywords ?? [])];
 
-    Object.entries(this.patterns).forEach(([type, patterns]) => {
+    Object.entries(this.patterns).forEach(([type, englishPatterns]) => {
       const sectionType = type as SectionType;
-      let bestMatch: RegExpMatchArray | null = null;
-      let bestPattern = '';
-      let maxScore = 0;
+      const typeMatches: PatternMatch[] = [];
+      const patterns = [...englishPatterns, ...(languagePatterns?.patterns[sectionType as Exclude<SectionType, 'unknown'>] ?? [])];
 
+      // Built-in patterns are case-insensitive, so they run on the original text and their offsets index it
       patterns.forEach(pattern => {
-        const match = lowerText.match(pattern);
-        if (match) {
-          const score = this.calculatePatternScore(match, lowerText);
-          if (score > maxScore) {
-            maxScore = score;
-            bestMatch = match;
-            bestPattern = pattern.toString();
-          }
+        for (const match of text.matchAll(pattern)) {
+          const score = this.calculatePatternScore(match, text, keywords);
+          this.collectMatch(typeMatches, sectionType, match, text, pattern, score, BUILT_IN_PATTERN_SOURCE);
         }
       });
 
-      if (bestMatch && maxScore > 0.3) {
-        matches.push({
-          type: sectionType,
-          confidence: maxScore,
-          matchedText: bestMatch[0],
-          matchedPatterns: [bestPattern],
-          startIndex: lowerText.indexOf(bestMatch[0]),
-          endIndex: lowerText.indexOf(bestMatch[0]) + bestMatch[0].length
+      // Pack patterns run on the original text so that their own flags decide case sensitivity
+      this.customPatterns
+        .filter(custom => custom.type === sectionType)
+        .forEach(custom => {
+          for (const match of text.matchAll(custom.regex)) {
+            const keywordBonus = custom.keywords.some(keyword => match[0].toLowerCase().includes(keyword)) ? 0.2 : 0;
+            const score = Math.min((this.calculatePatternScore(match, text, keywords) + keywordBonus) * custom.weight, 1.0);
+            this.collectMatch(typeMatches, sectionType, match, text, custom.regex, score, custom.source);
+          }
         });
-        this.patternStats[sectionType]++;
-      }
+
+      const distinct = this.removeOverlaps(typeMatches);
+      this.patternStats[sectionType] += distinct.length;
+      matches.push(...distinct);
     });
 
-    return matches.sort((a, b) => b.confidence - a.confidence);
+    return matches.sort((a, b) => b.confidence - a.confidence || a.startIndex - b.startIndex);
   }
 
-  private calculatePatternScore(match: RegExpMatchArray, text: string): number {
+  private collectMatch(
+    matches: PatternMatch[],
+    type: SectionType,
+    match: RegExpMatchArray,
+    text: string,
+    pattern: RegExp,
+    score: number,
+    source: string
+  ): void {
+    const learnedScore = Math.min(
+      score *
+        feedbackLearner.getPatternWeight(this.learnedState, pattern.toString()) *
+        feedbackLearner.getTypeMultiplier(this.learnedState, type),
+      1.0
+    );
+    if (!match[0] || match.index === undefined || learnedScore <= this.matchThreshold) return;
+
+    matches.push({
+      type,
+      confidence: learnedScore,
+      matchedText: text.slice(match.index, match.index + match[0].length),
+      matchedPatterns: [pattern.toString()],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      captures: match.slice(1),
+      source
+    });
+  }
+
+  /**
+   * Where patterns of one type match overlapping text, keep only the strongest match
+   */
+  private removeOverlaps(matches: PatternMatch[]): PatternMatch[] {
+    const kept: PatternMatch[] = [];
+    [...matches]
+      .sort((a, b) => b.confidence - a.confidence || (b.endIndex - b.startIndex) - (a.endIndex - a.startIndex))
+      .forEach(match => {
+        const overlaps = kept.some(other => match.startIndex < other.endIndex && other.startIndex < match.endIndex);
+        if (!overlaps) {
+          kept.push(match);
+        }
+      });
+    return kept;
+  }
+
+  private calculatePatternScore(match: RegExpMatchArray, text: string, keywords: string[]): number {
     if (!match) return 0;
     
     const matchLength = match[0].length;
@@ -129,7 +283,6 @@ class PatternMatcher implements PatternMatcherInterface {
     let score = Math.min(coverage * 2, 0.8);
     
     // Bonus for common keywords
-    const keywords = ['you are', 'analyze', 'create', 'don\'t', 'example', 'format'];
     const keywordBonus = keywords.some(keyword => 
       match[0].toLowerCase().includes(keyword)
     ) ? 0.2 : 0;
@@ -177,8 +330,12 @@ class ConfidenceScorer implements ConfidenceScorerInterface {
   private getRelevantKeywords(type: SectionType): string[] {
     const keywords = {
       role: ['you', 'are', 'act', 'role', 'persona', 'character'],
+      context: ['background', 'context', 'currently', 'our', 'situation'],
+      audience: ['audience', 'readers', 'intended for', 'written for', 'beginners'],
       task: ['analyze', 'create', 'generate', 'write', 'develop', 'task', 'objective'],
+      inputData: ['text', 'data', 'document', 'below', 'following'],
       constraints: ['don\'t', 'avoid', 'never', 'must not', 'limit', 'restrict', 'constraint'],
+      style: ['tone', 'style', 'voice', 'formal', 'friendly'],
       examples: ['example', 'for instance', 'such as', 'like', 'sample'],
       outputFormat: ['format', 'structure', 'json', 'xml', 'respond', 'present'],
       unknown: []
@@ -199,25 +356,21 @@ class ConfidenceScorer implements ConfidenceScorerInterface {
 class ContextAnalyzer implements ContextAnalyzerInterface {
   private totalAnalyses = 0;
   private processingTimes: number[] = [];
-  private feedbackData: Array<{
-    text: string;
-    oldType: SectionType;
-    newType: SectionType;
-    wasCorrect: boolean;
-  }> = [];
 
   public analyzeContext(
     matches: Array<{
-      block: { content: string; startIndex: number; endIndex: number };
+      block: TextBlock;
       blockIndex: number;
       matches: PatternMatch[];
     }>,
     fullText: string
   ): Array<{
-    block: { content: string; startIndex: number; endIndex: number };
+    block: TextBlock;
     blockIndex: number;
+    matches: PatternMatch[];
     bestMatch: PatternMatch | null;
     confidence: number;
+    candidates: SectionCandidate[];
   }> {
     const startTime = performance.now();
     this.totalAnalyses++;
@@ -227,39 +380,44 @@ class ContextAnalyzer implements ContextAnalyzerInterface {
         return {
           ...match,
           bestMatch: null,
-          confidence: 0
+          confidence: 0,
+          candidates: []
         };
       }
 
-      // Find best match considering context
+      // Find best match considering context, keeping the best of every type as a candidate
       let bestMatch = match.matches[0];
-      let bestConfidence = this.calculateContextualConfidence(
-        bestMatch,
-        match.block.content,
-        fullText,
-        match.blockIndex
-      );
-
-      // Check other matches
-      for (let i = 1; i < match.matches.length; i++) {
-        const currentMatch = match.matches[i];
-        const currentConfidence = this.calculateContextualConfidence(
+      let bestConfidence = -1;
+      const candidates = new Map<SectionType, SectionCandidate>();
+
+      match.matches.forEach(currentMatch => {
+        const scored = this.scoreInContext(
           currentMatch,
           match.block.content,
           fullText,
           match.blockIndex
         );
 
-        if (currentConfidence > bestConfidence) {
+        if (scored.confidence > bestConfidence) {
           bestMatch = currentMatch;
-          bestConfidence = currentConfidence;
+          bestConfidence = scored.confidence;
         }
-      }
+        const points = Math.round(scored.confidence * 100);
+        if (points > (candidates.get(currentMatch.type)?.confidence ?? -1)) {
+          candidates.set(currentMatch.type, {
+            type: currentMatch.type,
+            confidence: points,
+            matchScore: Math.round(currentMatch.confidence * 100),
+            adjustments: scored.adjustments
+          });
+        }
+      });
 
       return {
         ...match,
         bestMatch,
-        confidence: bestConfidence
+        confidence: bestConfidence,
+        candidates: [...candidates.values()].sort((a, b) => b.confidence - a.confidence)
       };
     });
 
@@ -269,12 +427,15 @@ class ContextAnalyzer implements ContextAnalyzerInterface {
     return results;
   }
 
-  private calculateContextualConfidence(
+  /**
+   * Contextual confidence of a match with the adjustments that led to it, in points
+   */
+  private scoreInContext(
     match: PatternMatch,
     blockText: string,
     fullText: string,
     blockIndex: number
-  ): number {
+  ): { confidence: number; adjustments: ScoreAdjustment[] } {
     let confidence = match.confidence;
 
     // Sequence bonus - role usually comes first, task second, etc.
@@ -286,9 +447,31 @@ class ContextAnalyzer implements ContextAnalyzerInterface {
     // Length appropriateness - some types should be longer/shorter
     const lengthBonus = this.getLengthBonus(match.type, blockText.length);
 
-    return Math.max(0, Math.min(1, 
-      confidence + sequenceBonus - typeConflictPenalty + lengthBonus
-    ));
+    const adjustments = [
+      { name: 'Expected position in the prompt', value: sequenceBonus },
+      { name: 'Type name repeated in the text', value: -typeConflictPenalty },
+      { name: 'Typical length for the type', value: lengthBonus }
+    ].filter(adjustment => adjustment.value !== 0);
+
+    const unbounded = confidence + sequenceBonus - typeConflictPenalty + lengthBonus;
+    confidence = Math.max(0, Math.min(1, unbounded));
+    if (confidence !== unbounded) {
+      adjustments.push({ name: 'Kept within 0-100%', value: confidence - unbounded });
+    }
+
+    return {
+      confidence,
+      adjustments: adjustments.map(adjustment => ({ ...adjustment, value: Math.round(adjustment.value * 1000) / 10 }))
+    };
+  }
+
+  private calculateContextualConfidence(
+    match: PatternMatch,
+    blockText: string,
+    fullText: string,
+    blockIndex: number
+  ): number {
+    return this.scoreInContext(match, blockText, fullText, blockIndex).confidence;
   }
 
   private getSequenceBonus(type: SectionType, blockIndex: number): number {
@@ -310,8 +493,12 @@ class ContextAnalyzer implements ContextAnalyzerInterface {
   private getLengthBonus(type: SectionType, length: number): number {
     const optimalLengths = {
       role: { min: 20, max: 100 },
+      context: { min: 40, max: 600 },
+      audience: { min: 15, max: 150 },
       task: { min: 30, max: 200 },
+      inputData: { min: 20, max: Infinity },
       constraints: { min: 20, max: 150 },
+      style: { min: 10, max: 120 },
       examples: { min: 40, max: 300 },
       outputFormat: { min: 15, max: 80 },
       unknown: { min: 0, max: Infinity }
@@ -357,23 +544,6 @@ class ContextAnalyzer implements ContextAnalyzerInterface {
     };
   }
 
-  public learnFromFeedback(
-    text: string,
-    oldType: SectionType,
-    newType: SectionType,
-    wasCorrect: boolean
-  ): void {
-    this.feedbackData.push({
-      text,
-      oldType,
-      newType,
-      wasCorrect
-    });
-
-    // Simple learning - could be enhanced with ML in the future
-    console.log(`Learning from feedback: ${oldType} -> ${newType} (correct: ${wasCorrect})`);
-  }
-
   public getTotalAnalyses(): number {
     return this.totalAnalyses;
   }
@@ -392,17 +562,76 @@ export class TextAnalyzer {
   private patternMatcher: PatternMatcherInterface;
   private confidenceScorer: ConfidenceScorerInterface;
   private contextAnalyzer: ContextAnalyzerInterface;
+  private config: Partial<ParsingConfig> = {};
+  private classifier: SectionClassifier = sectionClassifier;
+  private classifierExamples?: LearnedState['examples'];
+  private blockMatches = new Map<string, PatternMatch[]>();
 
-  constructor() {
+  constructor(config: Partial<ParsingConfig> = {}) {
     this.patternMatcher = new PatternMatcher();
     this.confidenceScorer = new ConfidenceScorer();
     this.contextAnalyzer = new ContextAnalyzer();
+    this.configure(config);
+  }
+
+  /**
+   * Update the parsing configuration; pattern packs only take part while custom patterns are enabled
+   */
+  public configure(config: Partial<ParsingConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.patternMatcher.setCustomPatterns(this.config.enableCustomPatterns
+      ? patternPackLibrary.compilePatternPacks(this.config.patternPacks ?? [])
+      : []);
+    this.patternMatcher.setLearnedState(this.config.learnedState);
+    this.patternMatcher.setMatchThreshold(this.getMatchThreshold());
+    // Patterns, learned weights and the classifier all shape the matches of a block
+    this.blockMatches.clear();
+
+    // Retrain the classifier only when the corrected examples change
+    const examples = this.config.learnedState?.examples;
+    if (examples !== this.classifierExamples) {
+      this.classifierExamples = examples;
+      this.classifier = examples?.length ? sectionClassifier.withExamples(examples) : sectionClassifier;
+    }
+  }
+
+  /**
+   * Learn from a user's verdict on a section; the returned state should be persisted by the caller
+   */
+  public learnFromFeedback(section: DetectedSection, correctedType?: SectionType): LearnedState {
+    const learnedState = feedbackLearner.applyFeedback(this.getLearnedState(), {
+      predictedType: section.type,
+      correctedType,
+      patterns: section.patterns ?? [],
+      text: section.content
+    });
+    this.configure({ learnedState });
+    return learnedState;
+  }
+
+  public getLearnedState(): LearnedState {
+    return this.config.learnedState ?? EMPTY_LEARNED_STATE;
+  }
+
+  /**
+   * Score (0-1) a pattern match or classifier prediction has to exceed. Sensitivity 70 keeps those
+   * scoring above 0.3; each point more lets slightly weaker ones through
+   */
+  private getMatchThreshold(): number {
+    return 1 - (this.config.sensitivity ?? PARSING_CONFIG.DEFAULT_SENSITIVITY) / 100;
+  }
+
+  /**
+   * Confidence (0-100) a section of `type` needs to be reported
+   */
+  public getConfidenceThreshold(type: SectionType): number {
+    return this.config.typeThresholds?.[type] ?? this.config.minConfidence ?? PARSING_CONFIG.MIN_CONFIDENCE;
   }
 
   /**
    * Main analysis function that processes text and detects POML sections
    */
-  public async analyzeText(text: string): Promise<AnalysisResult> {
+  public async analyzeText(text: string, options: AnalysisRunOptions = {}): Promise<AnalysisResult> {
     if (!text.trim()) {
       return {
         sections: [],
@@ -413,20 +642,33 @@ export class TextAnalyzer {
     }
 
     const startTime = performance.now();
+    const checkpoint = this.createCheckpoint(options);
     
     try {
-      // Step 1: Split text into logical blocks
+      // Step 1: Identify the language and split text into logical blocks
+      const language = languageDetector.detect(text);
       const blocks = this.splitIntoBlocks(text);
       
-      // Step 2: Apply pattern matching to each block
-      const patternMatches = blocks.map((block, index) => ({
-        block,
-        blockIndex: index,
-        matches: this.patternMatcher.matchPatterns(block.content)
-      }));
+      // Step 2: Apply pattern matching to each block; an explicit heading or a transcript decides the type instead
+      const patternMatches = [];
+      for (const [index, block] of blocks.entries()) {
+        patternMatches.push({
+          block,
+          blockIndex: index,
+          matches: block.headingType
+            ? [this.createHeadingMatch(block, block.headingType)]
+            : block.dialogue
+              ? [this.createDialogueMatch(block)]
+              : this.matchBlock(block.content, language.language)
+        });
+        await checkpoint((index + 1) / blocks.length * MATCHING_PROGRESS);
+      }
 
-      // Step 3: Apply context analysis for disambiguation
-      const contextualMatches = this.contextAnalyzer.analyzeContext(patternMatches, text);
+      // Step 3: Apply context analysis for disambiguation, never pushing a heading below its confidence
+      const contextualMatches = this.contextAnalyzer.analyzeContext(patternMatches, text)
+        .map(match => match.block.headingType && match.confidence < HEADING_CONFIDENCE
+          ? this.raiseToHeadingConfidence(match)
+          : match);
 
       // Step 4: Generate detected sections with confidence scores
       const sections = this.generateDetectedSections(contextualMatches);
@@ -435,15 +677,21 @@ export class TextAnalyzer {
       const overallConfidence = this.calculateOverallConfidence(sections);
 
       const endTime = performance.now();
+      options.onProgress?.(100);
 
       return {
         sections,
         confidence: overallConfidence,
         processingTime: endTime - startTime,
-        errors: []
+        errors: [],
+        language,
+        variables: variableDetector.detect(text)
       };
 
     } catch (error) {
+      // A cancelled run has no result to report
+      if (options.signal?.aborted) throw error;
+
       const endTime = performance.now();
       return {
         sections: [],
@@ -459,45 +707,194 @@ export class TextAnalyzer {
   }
 
   /**
-   * Split text into logical blocks for analysis
+   * A heading-typed block at the heading's confidence, with the raise recorded on its candidate
    */
-  private splitIntoBlocks(text: string): Array<{ content: string; startIndex: number; endIndex: number }> {
-    const blocks: Array<{ content: string; startIndex: number; endIndex: number }> = [];
-    
-    // Split by double newlines (paragraph breaks)
-    const paragraphs = text.split(/\n\s*\n/);
-    let currentIndex = 0;
+  private raiseToHeadingConfidence<T extends { confidence: number; candidates: SectionCandidate[]; bestMatch: PatternMatch | null }>(
+    match: T
+  ): T {
+    const raise = Math.round((HEADING_CONFIDENCE - match.confidence) * 1000) / 10;
+    return {
+      ...match,
+      confidence: HEADING_CONFIDENCE,
+      candidates: match.candidates.map(candidate => candidate.type === match.bestMatch?.type
+        ? {
+            ...candidate,
+            confidence: Math.round(HEADING_CONFIDENCE * 100),
+            adjustments: [...candidate.adjustments, { name: 'Section named by its heading', value: raise }]
+          }
+        : candidate)
+    };
+  }
 
-    paragraphs.forEach(paragraph => {
-      const trimmed = paragraph.trim();
-      if (trimmed) {
-        const startIndex = text.indexOf(trimmed, currentIndex);
-        const endIndex = startIndex + trimmed.length;
-        
-        blocks.push({
-          content: trimmed,
-          startIndex,
-          endIndex
-        });
-        
-        currentIndex = endIndex;
-      }
-    });
+  /**
+   * Checkpoint for a run: throws once the run is aborted and, when the run has held the thread for
+   * a while, reports progress and yields so that other messages and rendering can get through
+   */
+  private createCheckpoint({ signal, onProgress }: AnalysisRunOptions): (progress: number) => Promise<void> {
+    let lastYield = performance.now();
+
+    return async (progress: number) => {
+      signal?.throwIfAborted();
+      if (performance.now() - lastYield < YIELD_INTERVAL_MS) return;
+
+      onProgress?.(Math.round(progress));
+      await new Promise(resolve => setTimeout(resolve, 0));
+      lastYield = performance.now();
+      signal?.throwIfAborted();
+    };
+  }
+
+  /**
+   * Split text into logical blocks for analysis using its Markdown structure
+   */
+  private splitIntoBlocks(text: string): TextBlock[] {
+    const blocks = this.mergeDialogueBlocks(markdownSegmenter.segment(text), text);
 
-    // If no paragraph breaks found, split by sentences
-    if (blocks.length <= 1 && text.length > 100) {
+    // If the text is a single plain paragraph, split by sentences
+    const [onlyBlock] = blocks;
+    if (blocks.length <= 1 && text.length > 100 &&
+        (!onlyBlock || (onlyBlock.kind === 'paragraph' && !onlyBlock.headingType && !onlyBlock.dialogue))) {
       return this.splitBySentences(text);
     }
 
     return blocks;
   }
 
+  /**
+   * Join runs of blocks that open with a speaker label into one block per transcript, so that turns
+   * separated by blank lines stay together; blocks that read as a transcript carry its turns
+   */
+  private mergeDialogueBlocks(blocks: TextBlock[], text: string): TextBlock[] {
+    const merged: TextBlock[] = [];
+    let run: TextBlock[] = [];
+
+    const flush = () => {
+      if (run.length > 1) {
+        const [first] = run;
+        const last = run[run.length - 1];
+        const content = text.slice(first.startIndex, last.endIndex);
+        const dialogue = dialogueDetector.detect(content, first.startIndex);
+        if (dialogue) {
+          merged.push({
+            ...first,
+            content,
+            endIndex: last.endIndex,
+            kind: run.every(block => block.kind === first.kind) ? first.kind : 'mixed',
+            list: undefined,
+            dialogue
+          });
+          run = [];
+          return;
+        }
+      }
+      run.forEach(block => {
+        const dialogue = block.kind === 'code' ? null : dialogueDetector.detect(block.content, block.startIndex);
+        merged.push(dialogue ? { ...block, dialogue } : block);
+      });
+      run = [];
+    };
+
+    blocks.forEach(block => {
+      const opensTurn = block.kind !== 'code' && dialogueDetector.startsWithTurn(block.content);
+      // A heading may introduce a transcript but never continues one
+      if (!opensTurn || (run.length > 0 && block.heading)) flush();
+      run.push(block);
+      if (!opensTurn) flush();
+    });
+    flush();
+
+    return merged;
+  }
+
+  /**
+   * Pattern matches for a block, combined with the classifier where its English corpus applies
+   */
+  private matchBlock(content: string, language: PromptLanguage): PatternMatch[] {
+    const key = `${language}:${content.length}:${hashText(content)}`;
+    const cached = this.blockMatches.get(key);
+    if (cached) return cached;
+
+    const patternMatches = this.patternMatcher.matchPatterns(content, language);
+    const matches = language === 'en' ? this.classifyMatches(content, patternMatches) : patternMatches;
+
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.blockMatches.size >= MAX_CACHED_BLOCKS) {
+      this.blockMatches.delete(this.blockMatches.keys().next().value!);
+    }
+    this.blockMatches.set(key, matches);
+    return matches;
+  }
+
+  /**
+   * Combine pattern matches with the statistical classifier: each match score is blended with the
+   * probability of its type, and a confident prediction no pattern found becomes a candidate of its own
+   */
+  private classifyMatches(content: string, matches: PatternMatch[]): PatternMatch[] {
+    const prediction = this.classifier.classify(content);
+    if (!prediction) return matches;
+
+    const combined = matches.map(match => ({
+      ...match,
+      confidence: (1 - CLASSIFIER_BLEND) * match.confidence + CLASSIFIER_BLEND * prediction.probabilities[match.type]
+    }));
+
+    const score = Math.min(
+      prediction.probability * CLASSIFIER_WEIGHT * feedbackLearner.getTypeMultiplier(this.config.learnedState, prediction.type),
+      1.0
+    );
+    if (prediction.type !== 'unknown' &&
+        prediction.probability >= CLASSIFIER_MIN_PROBABILITY &&
+        score > this.getMatchThreshold() &&
+        !matches.some(match => match.type === prediction.type)) {
+      combined.push({
+        type: prediction.type,
+        confidence: score,
+        matchedText: content,
+        matchedPatterns: [`${CLASSIFIER_SOURCE}: ${prediction.type}`],
+        startIndex: 0,
+        endIndex: content.length,
+        source: CLASSIFIER_SOURCE
+      });
+    }
+
+    return combined.sort((a, b) => b.confidence - a.confidence || a.startIndex - b.startIndex);
+  }
+
+  /**
+   * Pattern match standing for a heading that names the block's section type
+   */
+  private createHeadingMatch(block: TextBlock, type: SectionType): PatternMatch {
+    return {
+      type,
+      confidence: HEADING_CONFIDENCE,
+      matchedText: block.heading ?? '',
+      matchedPatterns: [`heading: ${block.heading}`],
+      startIndex: 0,
+      endIndex: 0
+    };
+  }
+
+  /**
+   * Examples match standing for a block that reads as a transcript
+   */
+  private createDialogueMatch(block: TextBlock): PatternMatch {
+    const turns = block.dialogue?.turns.length ?? 0;
+    return {
+      type: 'examples',
+      confidence: DIALOGUE_CONFIDENCE,
+      matchedText: block.content,
+      matchedPatterns: [`dialogue: ${turns} turns`],
+      startIndex: 0,
+      endIndex: block.content.length
+    };
+  }
+
   /**
    * Fallback method to split text by sentences
    */
-  private splitBySentences(text: string): Array<{ content: string; startIndex: number; endIndex: number }> {
+  private splitBySentences(text: string): TextBlock[] {
     const sentences = text.split(/[.!?]+\s+/);
-    const blocks: Array<{ content: string; startIndex: number; endIndex: number }> = [];
+    const blocks: TextBlock[] = [];
     let currentIndex = 0;
 
     sentences.forEach(sentence => {
@@ -509,7 +906,8 @@ export class TextAnalyzer {
         blocks.push({
           content: trimmed,
           startIndex,
-          endIndex
+          endIndex,
+          kind: 'sentence'
         });
         
         currentIndex = endIndex;
@@ -520,33 +918,67 @@ export class TextAnalyzer {
   }
 
   /**
-   * Generate DetectedSection objects from contextual matches
+   * Generate DetectedSection objects from contextual matches. IDs derive from the block's heading and
+   * content, so a block keeps its ID across analyses while edits elsewhere move it around
    */
   private generateDetectedSections(
     contextualMatches: Array<{
-      block: { content: string; startIndex: number; endIndex: number };
+      block: TextBlock;
       blockIndex: number;
+      matches: PatternMatch[];
       bestMatch: PatternMatch | null;
       confidence: number;
+      candidates: SectionCandidate[];
     }>
   ): DetectedSection[] {
+    const seen = new Map<string, number>();
+
     return contextualMatches
-      .filter(match => match.bestMatch)
-      .map((match, index) => ({
-        id: `section-${index}`,
+      .filter(match => match.bestMatch &&
+        Math.round(match.confidence * 100) >= this.getConfidenceThreshold(match.bestMatch.type))
+      .map(match => {
+        const blockHash = hashText(`${match.block.heading ?? ''}\n${match.block.content}`);
+        const occurrence = (seen.get(blockHash) ?? 0) + 1;
+        seen.set(blockHash, occurrence);
+        return { match, blockHash, occurrence };
+      })
+      .map(({ match, blockHash, occurrence }) => ({
+        id: occurrence > 1 ? `section-${blockHash}-${occurrence}` : `section-${blockHash}`,
         type: match.bestMatch!.type,
         content: match.block.content,
         confidence: Math.round(match.confidence * 100),
         startIndex: match.block.startIndex,
         endIndex: match.block.endIndex,
         patterns: match.bestMatch!.matchedPatterns,
+        spans: match.block.headingType ? [] : this.toTextSpans(match.matches, match.bestMatch!.type, match.block.startIndex),
+        ...(match.block.dialogue && match.bestMatch!.type === 'examples' && { dialogue: match.block.dialogue }),
+        candidates: match.candidates,
         metadata: {
           blockIndex: match.blockIndex,
-          rawConfidence: match.confidence
+          blockHash,
+          rawConfidence: match.confidence,
+          blockKind: match.block.kind,
+          ...(match.block.heading && { heading: match.block.heading }),
+          ...(match.block.list && { list: match.block.list }),
+          ...(match.block.language && { language: match.block.language })
         }
       }));
   }
 
+  /**
+   * Pattern matches of one type, in text order, with offsets moved from the block into the full text
+   */
+  private toTextSpans(matches: PatternMatch[], type: SectionType, offset: number): PatternMatch[] {
+    return matches
+      .filter(match => match.type === type && match.source !== CLASSIFIER_SOURCE)
+      .map(match => ({
+        ...match,
+        startIndex: offset + match.startIndex,
+        endIndex: offset + match.endIndex
+      }))
+      .sort((a, b) => a.startIndex - b.startIndex);
+  }
+
   /**
    * Calculate overall confidence score for the analysis
    */
@@ -575,8 +1007,14 @@ export class TextAnalyzer {
     const contextBefore = fullText.substring(Math.max(0, section.startIndex - 200), section.startIndex);
     const contextAfter = fullText.substring(section.endIndex, Math.min(fullText.length, section.endIndex + 200));
 
-    // Re-run pattern matching with enhanced context
-    const patterns = this.patternMatcher.matchPatterns(sectionText);
+    // Apply user feedback first so that re-matching already uses the learned weights
+    const userType = userFeedback && (userFeedback.wasCorrect ? section.type : userFeedback.correctedType);
+    if (userType) {
+      this.learnFromFeedback(section, userType);
+    }
+
+    // Re-run pattern matching and classification with enhanced context
+    const patterns = this.matchBlock(sectionText, languageDetector.detect(fullText).language);
     const contextualAnalysis = this.contextAnalyzer.analyzeWithContext(
       sectionText,
       contextBefore,
@@ -584,25 +1022,21 @@ export class TextAnalyzer {
       patterns
     );
 
-    // Apply user feedback if provided
-    if (userFeedback) {
-      this.contextAnalyzer.learnFromFeedback(
-        sectionText,
-        section.type,
-        userFeedback.correctedType,
-        userFeedback.wasCorrect
-      );
-    }
-
+    // The user's verdict overrides the suggested type
+    const type = userType || contextualAnalysis.suggestedType || section.type;
     return {
       ...section,
-      type: contextualAnalysis.suggestedType || section.type,
-      confidence: Math.round(contextualAnalysis.confidence * 100),
+      type,
+      confidence: userType ? 100 : Math.round(contextualAnalysis.confidence * 100),
       patterns: contextualAnalysis.matchedPatterns,
+      spans: this.toTextSpans(patterns, type, section.startIndex),
+      // The candidates of the full analysis no longer explain a re-scored section, but still show its rivals for a correction
+      candidates: userType ? section.candidates : undefined,
       metadata: {
         ...section.metadata,
         reanalyzed: true,
-        previousType: section.type
+        previousType: section.type,
+        ...(userType && { userCorrected: true })
       }
     };
   }
@@ -0,0 +1,88 @@
+/**
+ * Variable Detector - Finds template placeholders such as {{customer_name}}, {input}, <INSERT TEXT> and $VAR
+ * Placeholders are named as identifiers so the generated POML can declare and reference them
+ */
+
+import type { PromptVariable, VariableOccurrence, VariableSyntax } from '../types';
+
+// One alternative per syntax; the lookarounds keep {x} from matching inside {{x}} or ${x}
+const PLACEHOLDER_PATTERN = new RegExp([
+  /\{\{\s*([A-Za-z_][\w .-]{0,40}?)\s*\}\}/.source,
+  /(?<![{$\w])\{([A-Za-z_]\w*)\}(?!\})/.source,
+  /<\s*(INSERT(?:[ _-][\w .-]{0,40}?)?)\s*>/.source,
+  /(?<![\w$])\$(?:\{\s*([A-Za-z_]\w*)\s*\}|([A-Z][A-Z0-9_]*)\b)/.source
+].join('|'), 'g');
+
+// Fenced code is literal, so braces inside it are not placeholders
+const CODE_FENCE = /```[\s\S]*?(?:```|$)/g;
+
+export class VariableDetector {
+  /**
+   * Every placeholder in `text`, grouped by variable in order of first appearance
+   */
+  public detect(text: string): PromptVariable[] {
+    const variables = new Map<string, VariableOccurrence[]>();
+
+    this.findPlaceholders(text).forEach(({ name, occurrence }) => {
+      const occurrences = variables.get(name) ?? [];
+      occurrences.push(occurrence);
+      variables.set(name, occurrences);
+    });
+
+    return [...variables].map(([name, occurrences]) => ({ name, occurrences }));
+  }
+
+  /**
+   * `text` with every placeholder replaced by a POML reference such as {{ customer_name }}
+   */
+  public parameterize(text: string): string {
+    let result = '';
+    let lastIndex = 0;
+
+    this.findPlaceholders(text).forEach(({ name, occurrence }) => {
+      result += `${text.slice(lastIndex, occurrence.startIndex)}{{ ${name} }}`;
+      lastIndex = occurrence.endIndex;
+    });
+
+    return result + text.slice(lastIndex);
+  }
+
+  /**
+   * Placeholders outside fenced code, in text order
+   */
+  private findPlaceholders(text: string): Array<{ name: string; occurrence: VariableOccurrence }> {
+    const fences = [...text.matchAll(CODE_FENCE)].map(match => [match.index, match.index + match[0].length]);
+    const inFence = (index: number) => fences.some(([start, end]) => index >= start && index < end);
+
+    return [...text.matchAll(PLACEHOLDER_PATTERN)]
+      .filter(match => !inFence(match.index))
+      .map(match => {
+        const [placeholder, mustache, brace, insert, dollarBraced, dollar] = match;
+        const syntax: VariableSyntax = mustache ? 'mustache' : brace ? 'brace' : insert ? 'insert' : 'dollar';
+        const name = insert
+          ? this.toIdentifier(insert.replace(/^INSERT[ _-]*/, '').replace(/[ _-]*HERE$/i, '').toLowerCase() || 'input')
+          : this.toIdentifier(mustache ?? brace ?? dollarBraced ?? dollar);
+
+        return {
+          name,
+          occurrence: {
+            text: placeholder,
+            syntax,
+            startIndex: match.index,
+            endIndex: match.index + placeholder.length
+          }
+        };
+      });
+  }
+
+  /**
+   * Identifier for a placeholder name, e.g. 'customer name' becomes 'customer_name'
+   */
+  private toIdentifier(name: string): string {
+    const identifier = name.trim().replace(/[^\w]+/g, '_').replace(/^_+|_+$/g, '');
+    return /^\d/.test(identifier) ? `_${identifier}` : identifier || 'input';
+  }
+}
+
+// Create singleton instance
+export const variableDetector = new VariableDetector();
@@ -0,0 +1,53 @@
+import type { SectionType } from './parser.types';
+
+export interface GoldSpan {
+  type: SectionType;
+  startIndex: number; // offsets into the prompt text, end exclusive
+  endIndex: number;
+}
+
+export interface GoldPrompt {
+  id: string;
+  text: string;
+  spans: GoldSpan[]; // text outside every span belongs to no section
+}
+
+export interface TypeScores {
+  precision: number; // 0-1
+  recall: number; // 0-1
+  f1: number; // 0-1
+  gold: number; // gold spans of the type
+  predicted: number; // predicted sections of the type
+  matched: number; // predictions that matched a gold span
+}
+
+export interface CalibrationBin {
+  minConfidence: number; // 0-100, inclusive
+  maxConfidence: number; // 0-100, exclusive except for the last bin
+  count: number;
+  meanConfidence: number; // 0-100
+  accuracy: number; // 0-1, share of the bin's predictions that matched a gold span
+}
+
+export interface CalibrationReport {
+  bins: CalibrationBin[];
+  expectedCalibrationError: number; // 0-1, count-weighted gap between confidence and accuracy
+}
+
+export interface PromptEvaluation {
+  id: string;
+  missed: GoldSpan[]; // gold spans no prediction matched
+  spurious: GoldSpan[]; // predictions that matched no gold span
+}
+
+export interface EvaluationReport {
+  detector: string;
+  corpus: string; // name of the scored corpus
+  prompts: number;
+  overlapThreshold: number; // minimum intersection over union for a prediction to match a gold span
+  perType: Record<Exclude<SectionType, 'unknown'>, TypeScores>;
+  micro: TypeScores; // all types pooled
+  macroF1: number; // mean F1 over the types with gold spans or predictions
+  calibration: CalibrationReport;
+  details: PromptEvaluation[];
+}
@@ -1,3 +1,4 @@
 export * from './parser.types';
 export * from './poml.types';
 export * from './ui.types';
+export * from './evaluation.types';
@@ -1,4 +1,14 @@
-export type SectionType = 'role' | 'task' | 'constraints' | 'examples' | 'outputFormat' | 'unknown';
+export type SectionType =
+  | 'role'
+  | 'context' // background information the model needs
+  | 'audience' // who the response is written for
+  | 'task'
+  | 'inputData' // pasted text or data the task works on
+  | 'constraints'
+  | 'style' // tone and style of the response
+  | 'examples'
+  | 'outputFormat'
+  | 'unknown';
 
 export interface DetectedSection {
   id: string;
@@ -8,9 +18,84 @@ export interface DetectedSection {
   startIndex: number;
   endIndex: number;
   patterns?: string[];
+  spans?: PatternMatch[]; // every match of the section's type, offsets into the analyzed text
+  dialogue?: Dialogue; // turns of a transcript section, offsets into the analyzed text
+  candidates?: SectionCandidate[]; // best score of every type the block matched, strongest first
   metadata?: Record<string, any>;
 }
 
+export interface ScoreAdjustment {
+  name: string;
+  value: number; // points added to the score, negative for a penalty
+}
+
+export interface SectionCandidate {
+  type: SectionType;
+  confidence: number; // 0-100, the match score after its adjustments
+  matchScore: number; // 0-100, score of the type's best pattern match in the block
+  adjustments: ScoreAdjustment[]; // what the surrounding text added or took away
+}
+
+export interface ConfidenceFactor {
+  name: string;
+  multiplier: number;
+  detail: string; // what in the section led to the multiplier
+}
+
+export interface PatternEvidence {
+  pattern: string; // the pattern in readable form
+  matchedText: string;
+  source: string; // pattern pack id, 'built-in', 'heading', 'dialogue' or 'classifier'
+  score?: number; // 0-100
+}
+
+export interface SectionExplanation {
+  sectionId: string;
+  type: SectionType;
+  confidence: number; // 0-100
+  summary: string; // one sentence on what decided the type
+  evidence: PatternEvidence[];
+  score?: SectionCandidate; // how the analysis arrived at the confidence, when it recorded it
+  factors: ConfidenceFactor[]; // second opinion of the confidence scorer, one multiplier per factor
+  scorerConfidence: number; // 0-100, the section confidence with every factor applied
+  competitors: SectionCandidate[]; // the other types the block matched, strongest first
+}
+
+export type DialogueSpeaker = 'human' | 'ai' | 'system';
+
+export interface DialogueTurn {
+  speaker: DialogueSpeaker;
+  label: string; // speaker label as written, such as 'User' or 'Q'
+  content: string; // turn text without its label
+  startIndex: number; // the turn including its label
+  endIndex: number;
+}
+
+export interface Dialogue {
+  kind: 'chat' | 'qa'; // 'qa' when every turn is labelled as a question or an answer
+  turns: DialogueTurn[]; // in transcript order
+}
+
+export type TextBlockKind = 'paragraph' | 'sentence' | 'heading' | 'list' | 'quote' | 'code' | 'mixed';
+
+export interface ListItem {
+  text: string;
+  depth: number; // 0 for top-level items
+  marker: string; // '-', '*', '+', or the number such as '1.'
+}
+
+export interface TextBlock {
+  content: string;
+  startIndex: number;
+  endIndex: number;
+  kind: TextBlockKind;
+  heading?: string; // heading or label the block sits under, without markup
+  headingType?: SectionType; // section type named by the heading, if it names one
+  list?: { ordered: boolean; items: ListItem[] };
+  language?: string; // info string of a fenced code block
+  dialogue?: Dialogue; // speaker turns when the block is a chat transcript or Q/A pairs
+}
+
 export interface ParseError {
   type: string;
   message: string;
@@ -30,19 +115,96 @@ export interface AnalysisResult {
   confidence: number;
   processingTime: number;
   errors: ParseError[];
+  language?: LanguageDetection; // language of the analyzed text
+  variables?: PromptVariable[]; // template placeholders, in order of first appearance
+}
+
+export interface AnalysisRunOptions {
+  signal?: AbortSignal; // aborting rejects the run at its next checkpoint
+  onProgress?: (progress: number) => void; // 0-100
+}
+
+export type VariableSyntax = 'mustache' | 'brace' | 'insert' | 'dollar'; // {{x}}, {x}, <INSERT X>, $X or ${X}
+
+export interface VariableOccurrence {
+  text: string; // placeholder as written, such as '{{customer_name}}' or '<INSERT TEXT>'
+  syntax: VariableSyntax;
+  startIndex: number;
+  endIndex: number;
+}
+
+export interface PromptVariable {
+  name: string; // identifier the generated POML declares and references
+  occurrences: VariableOccurrence[]; // in text order
+}
+
+export type PromptLanguage = 'en' | 'de' | 'es' | 'fr';
+
+export interface LanguageDetection {
+  language: PromptLanguage;
+  confidence: number; // 0-1
 }
 
 export interface PatternMatch {
   type: SectionType;
-  confidence: number;
+  confidence: number; // 0-1 match score; sections and settings express confidence in 0-100
   matchedText: string;
   matchedPatterns: string[];
   startIndex: number;
   endIndex: number;
+  captures?: string[]; // capture groups of the pattern, undefined where a group did not participate
+  source?: string; // id of the pattern pack that produced the match, 'built-in' for bundled patterns
 }
 
 export interface ParsingConfig {
-  sensitivity: number; // 0-100, how strict the pattern matching is
-  minConfidence: number; // minimum confidence to accept a section
+  sensitivity: number; // 0-100, higher accepts weaker pattern matches
+  minConfidence: number; // 0-100, sections below it are dropped
+  typeThresholds?: Partial<Record<SectionType, number>>; // 0-100, replaces minConfidence for a type
   enableCustomPatterns: boolean;
+  patternPacks?: PatternPack[]; // applied only when enableCustomPatterns is on
+  learnedState?: LearnedState;
+}
+
+export interface LearnedState {
+  patternWeights: Record<string, number>; // score multiplier per pattern, keyed by the pattern's source
+  typeMultipliers: Partial<Record<SectionType, number>>; // score multiplier per section type
+  feedbackCount: number;
+  examples?: LabelledExample[]; // corrected sections the classifier is retrained with, most recent last
+  updatedAt?: string;
+}
+
+export interface LabelledExample {
+  text: string;
+  type: SectionType;
+}
+
+export interface ClassifierPrediction {
+  type: SectionType;
+  probability: number; // 0-1
+  probabilities: Record<SectionType, number>;
+}
+
+export interface ClassificationFeedback {
+  predictedType: SectionType;
+  correctedType?: SectionType; // same as predictedType to confirm; omitted when the prediction was only rejected
+  patterns: string[]; // patterns that produced the prediction
+  text?: string; // section content, kept as a training example when the type is confirmed or corrected
+}
+
+export interface PatternDefinition {
+  type: Exclude<SectionType, 'unknown'>;
+  pattern: string; // regular expression source
+  flags?: string; // defaults to 'gi'; 'g' is always added
+  weight?: number; // multiplies the match score, defaults to 1
+  keywords?: string[]; // raise the score when the matched text contains one of them
+  description?: string;
+}
+
+export interface PatternPack {
+  id: string;
+  name: string;
+  description?: string;
+  version?: number;
+  enabled?: boolean; // packs are on unless switched off
+  patterns: PatternDefinition[];
 }
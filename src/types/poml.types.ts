@@ -1,10 +1,12 @@
+import type { SectionType } from './parser.types';
+
 export interface PomlSection {
   id: string;
   type: 'overview' | 'objective' | 'motivation' | 'learning' | 'custom';
   content: string;
   startLine?: number;
   endLine?: number;
-  confidence: number;
+  confidence: number; // 0-100
 }
 
 export interface PomlGenerationResult {
@@ -19,11 +21,23 @@ export interface PomlGenerationResult {
   };
 }
 
+export interface SourcePosition {
+  offset: number;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface SourceSpan {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
 export interface PomlComponent {
   tag: string;
   attributes?: Record<string, string>;
   content: string | PomlComponent[];
   id?: string;
+  span?: SourceSpan;
 }
 
 export interface ValidationError {
@@ -40,6 +54,44 @@ export interface ValidationResult {
   warnings: ValidationError[];
 }
 
+export interface ValidationContext {
+  poml: string;
+  components: PomlComponent[];
+}
+
+export interface ValidationRule {
+  name: string;
+  description: string;
+  severity: 'error' | 'warning' | 'info';
+  enabledByDefault?: boolean;
+  check: (context: ValidationContext) => ValidationError[];
+}
+
+export interface TextEdit {
+  start: number; // character offset into the POML source
+  end: number;
+  newText: string;
+}
+
+export interface SuggestionFix {
+  label: string;
+  edits: TextEdit[];
+}
+
+export interface BestPracticeSuggestion {
+  id: string;
+  rule: string;
+  category: 'structure' | 'clarity' | 'examples' | 'constraints' | 'format';
+  message: string;
+  line?: number;
+  column?: number;
+  fix?: SuggestionFix;
+}
+
+export interface BestPracticesResult {
+  suggestions: BestPracticeSuggestion[];
+}
+
 export interface PomlTemplate {
   id: string;
   name: string;
@@ -50,12 +102,15 @@ export interface PomlTemplate {
 }
 
 export interface TemplateComponent {
-  type: 'role' | 'task' | 'constraints' | 'examples' | 'outputFormat';
+  type: Exclude<SectionType, 'unknown'>;
   placeholder: string;
   required: boolean;
   defaultContent?: string;
 }
 
+// Filled-in content for a template, keyed by the component's index in `structure`
+export type TemplateValues = Record<number, string>;
+
 export interface Enhancement {
   id: string;
   label: string;
@@ -1,4 +1,4 @@
-import type { DetectedSection, ParseError } from './parser.types';
+import type { DetectedSection, LearnedState, ParseError, PatternPack, SectionType } from './parser.types';
 import type { PomlTemplate, ValidationError } from './poml.types';
 
 export interface AppState {
@@ -13,6 +13,21 @@ export interface AppState {
   validationErrors: ValidationError[];
   isValid: boolean;
   
+  // Templates
+  customTemplates: PomlTemplate[];
+
+  // Projects
+  currentProjectId?: string;
+  projects: SavedProject[];
+  versions: ProjectVersion[]; // snapshots of the open workspace, oldest first
+
+  // Undo/redo (session only)
+  undoStack: UndoEntry[]; // oldest first
+  redoStack: UndoEntry[]; // most recently undone last
+
+  // Pattern weights and type multipliers learned from user corrections
+  learnedState: LearnedState;
+
   // UI state
   selectedTemplate?: PomlTemplate;
   inspectorPanelOpen: boolean;
@@ -25,11 +40,16 @@ export interface AppState {
 
 export interface UserSettings {
   autoSave: boolean;
-  parsingSensitivity: number;
+  parsingSensitivity: number; // 0-100, higher accepts weaker pattern matches
+  minConfidence: number; // 0-100, sections below it are dropped
+  typeThresholds: Partial<Record<SectionType, number>>; // 0-100, replaces minConfidence for a type
   theme: 'light' | 'dark';
   editorFontSize: number;
   showLineNumbers: boolean;
   enableLinting: boolean;
+  lintRules: Record<string, boolean>; // per-rule on/off overrides, keyed by rule name
+  enableCustomPatterns: boolean;
+  patternPacks: PatternPack[];
 }
 
 export interface SavedProject {
@@ -40,6 +60,26 @@ export interface SavedProject {
   detectedSections: DetectedSection[];
   lastModified: Date;
   settings: UserSettings;
+  versions?: ProjectVersion[];
+}
+
+export interface ProjectVersion {
+  id: string;
+  label: string;
+  createdAt: Date;
+  inputText: string;
+  detectedSections: DetectedSection[];
+  generatedPoml: string;
+}
+
+export type EditableSnapshot = Pick<AppState, 'inputText' | 'detectedSections' | 'generatedPoml'>;
+
+export interface UndoEntry {
+  label: string;
+  snapshot: EditableSnapshot; // state before the change
+  timestamp: number;
+  coalesceKey?: string; // consecutive changes with the same key merge into one entry
+  size: number; // approximate footprint in characters
 }
 
 export type ExportFormat = 'poml' | 'txt' | 'json' | 'html';
@@ -1,3 +1,5 @@
+import type { PatternPack, SectionType } from '../types';
+
 // POML-related constants
 export const POML_COMPONENTS = {
   ROLE: 'role',
@@ -7,8 +9,43 @@ export const POML_COMPONENTS = {
   OUTPUT_FORMAT: 'outputFormat',
   HINT: 'hint',
   QUESTION: 'qa',
+  HUMAN_MESSAGE: 'human-msg',
+  AI_MESSAGE: 'ai-msg',
+  SYSTEM_MESSAGE: 'system-msg',
 } as const;
 
+// Section types a detected section can be assigned to, in document order
+export const SECTION_TYPES: readonly SectionType[] = [
+  'role', 'context', 'audience', 'task', 'inputData', 'constraints', 'style', 'examples', 'outputFormat', 'unknown'
+];
+
+export const SECTION_TYPE_LABELS: Record<SectionType, string> = {
+  role: 'Role',
+  context: 'Context',
+  audience: 'Audience',
+  task: 'Task',
+  inputData: 'Input data',
+  constraints: 'Constraints',
+  style: 'Tone & style',
+  examples: 'Examples',
+  outputFormat: 'Output format',
+  unknown: 'Unclassified',
+};
+
+// Badge colors (Tailwind classes) per section type
+export const SECTION_TYPE_BADGES: Record<SectionType, string> = {
+  role: 'bg-blue-100 text-blue-800',
+  context: 'bg-teal-100 text-teal-800',
+  audience: 'bg-orange-100 text-orange-800',
+  task: 'bg-green-100 text-green-800',
+  inputData: 'bg-slate-200 text-slate-800',
+  constraints: 'bg-yellow-100 text-yellow-800',
+  style: 'bg-rose-100 text-rose-800',
+  examples: 'bg-purple-100 text-purple-800',
+  outputFormat: 'bg-pink-100 text-pink-800',
+  unknown: 'bg-gray-100 text-gray-800',
+};
+
 export const POML_TAGS = {
   ROLE: '<role>',
   TASK: '<task>',
@@ -24,6 +61,33 @@ export const POML_TAGS = {
   HEADER: '<h>',
 } as const;
 
+// Attributes accepted on POML components ('*' applies to every component)
+export const POML_ATTRIBUTES: Record<string, readonly string[]> = {
+  '*': ['id', 'caption', 'captionStyle', 'syntax', 'speaker', 'className', 'confidence', 'if', 'for', 'whiteSpace', 'charLimit', 'tokenLimit', 'priority'],
+  prompt: ['generated', 'sections'],
+  poml: ['generated', 'sections'],
+  p: ['type'],
+  list: ['listStyle'],
+  cp: ['captionSerialized'],
+  let: ['name', 'value', 'src', 'type'],
+  img: ['src', 'alt', 'base64', 'type'],
+  document: ['src', 'parser', 'selectedPages'],
+  table: ['src', 'records', 'columns', 'parser'],
+};
+
+// Components that may only appear inside one of the listed parents
+export const POML_NESTING_RULES: Record<string, readonly string[]> = {
+  item: ['list'],
+  input: ['example'],
+  output: ['example'],
+};
+
+// Pseudo-tags for non-element nodes in a PomlComponent tree
+export const POML_NODE_TAGS = {
+  TEXT: '#text',
+  COMMENT: '#comment',
+} as const;
+
 // Pattern detection constants
 export const ROLE_PATTERNS = [
   /you are\s+/gi,
@@ -84,21 +148,37 @@ export const FORMAT_PATTERNS = [
   /step-by-step/gi,
 ] as const;
 
+// Confidence is expressed in 0-100 throughout, like DetectedSection.confidence
+export const PARSING_CONFIG = {
+  MIN_CONFIDENCE: 30,
+  DEFAULT_SENSITIVITY: 70,
+  DEBOUNCE_DELAY: 500,
+  MAX_TEXT_LENGTH: 50000,
+};
+
 // UI Constants
 export const DEFAULT_SETTINGS = {
   autoSave: true,
-  parsingSensitivity: 70,
+  parsingSensitivity: PARSING_CONFIG.DEFAULT_SENSITIVITY,
+  minConfidence: PARSING_CONFIG.MIN_CONFIDENCE,
+  typeThresholds: {} as Partial<Record<SectionType, number>>,
   theme: 'dark' as const,
   editorFontSize: 14,
   showLineNumbers: true,
   enableLinting: true,
+  lintRules: {} as Record<string, boolean>,
+  enableCustomPatterns: true,
+  patternPacks: [] as PatternPack[],
 };
 
-export const PARSING_CONFIG = {
-  MIN_CONFIDENCE: 0.3,
-  DEFAULT_SENSITIVITY: 70,
-  DEBOUNCE_DELAY: 500,
-  MAX_TEXT_LENGTH: 50000,
+export const HISTORY_CONFIG = {
+  MAX_VERSIONS: 50, // oldest snapshots are dropped beyond this
+};
+
+export const UNDO_CONFIG = {
+  MAX_ENTRIES: 100,
+  MAX_TOTAL_SIZE: 5_000_000, // characters across the undo stack
+  COALESCE_DELAY: 1000, // ms within which typing merges into one entry
 };
 
 export const UI_CONFIG = {
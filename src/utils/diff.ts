@@ -0,0 +1,106 @@
+/**
+ * Line-level text diff based on the longest common subsequence
+ */
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+  oldLineNumber?: number; // 1-based
+  newLineNumber?: number; // 1-based
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+// Above this many LCS cells the middle of the diff is reported as a plain replace
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Compute a line-by-line diff between two texts
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  // Trim the common prefix and suffix so the LCS only runs on the changed region
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'unchanged', text: oldLines[i], oldLineNumber: i + 1, newLineNumber: i + 1 });
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  result.push(...diffMiddle(oldMiddle, newMiddle, prefix));
+
+  for (let i = suffix; i > 0; i--) {
+    const oldIndex = oldLines.length - i;
+    const newIndex = newLines.length - i;
+    result.push({ type: 'unchanged', text: oldLines[oldIndex], oldLineNumber: oldIndex + 1, newLineNumber: newIndex + 1 });
+  }
+
+  return result;
+}
+
+/**
+ * Count added, removed and unchanged lines in a diff
+ */
+export function summarizeDiff(lines: DiffLine[]): DiffSummary {
+  return lines.reduce(
+    (summary, line) => ({ ...summary, [line.type]: summary[line.type] + 1 }),
+    { added: 0, removed: 0, unchanged: 0 }
+  );
+}
+
+function diffMiddle(oldLines: string[], newLines: string[], offset: number): DiffLine[] {
+  if (oldLines.length * newLines.length > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map((text, i) => ({ type: 'removed' as const, text, oldLineNumber: offset + i + 1 })),
+      ...newLines.map((text, i) => ({ type: 'added' as const, text, newLineNumber: offset + i + 1 }))
+    ];
+  }
+
+  // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lengths: number[][] = Array.from({ length: oldLines.length + 1 }, () => new Array(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      result.push({ type: 'unchanged', text: oldLines[i], oldLineNumber: offset + i + 1, newLineNumber: offset + j + 1 });
+      i++;
+      j++;
+    } else if (i < oldLines.length && (j >= newLines.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      result.push({ type: 'removed', text: oldLines[i], oldLineNumber: offset + i + 1 });
+      i++;
+    } else {
+      result.push({ type: 'added', text: newLines[j], newLineNumber: offset + j + 1 });
+      j++;
+    }
+  }
+  return result;
+}
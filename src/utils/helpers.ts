@@ -7,6 +7,18 @@ export function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2, 9);
 }
 
+/**
+ * Content hash of a string (32-bit FNV-1a in base 36), for cache keys and content-derived IDs
+ */
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
 /**
  * Debounce function for limiting frequent function calls
  */
@@ -41,6 +53,35 @@ export function escapeXml(text: string): string {
     .replace(/'/g, '&apos;');
 }
 
+/**
+ * Code point of a numeric character reference body ('#65' or '#x41'), or null when it names no character
+ */
+export function numericEntityCodePoint(code: string): number | null {
+  const codePoint = code.startsWith('#x') ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10);
+  const isSurrogate = codePoint >= 0xd800 && codePoint <= 0xdfff;
+  return codePoint <= 0x10ffff && !isSurrogate ? codePoint : null;
+}
+
+/**
+ * Decode XML entities produced by escapeXml (plus numeric character references);
+ * references to no valid character stay as literal text
+ */
+export function unescapeXml(text: string): string {
+  return text.replace(/&(#\d+|#x[0-9a-fA-F]+|lt|gt|quot|apos|amp);/g, (entity, code: string) => {
+    switch (code) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      case 'amp': return '&';
+      default: {
+        const codePoint = numericEntityCodePoint(code);
+        return codePoint === null ? entity : String.fromCodePoint(codePoint);
+      }
+    }
+  });
+}
+
 /**
  * Clean up text by removing extra whitespace and normalizing
  */
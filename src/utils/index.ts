@@ -1,3 +1,5 @@
 export * from './constants';
 export * from './helpers';
 export * from './fileOperations';
+export * from './diff';
+export * from './projectRepository';
@@ -0,0 +1,186 @@
+/**
+ * Project Repository - Stores SavedProjects in IndexedDB, with an in-memory stand-in
+ * for environments without IndexedDB (tests, server-side rendering, browsers that disable it)
+ */
+
+import type { SavedProject } from '../types';
+import { generateId } from './helpers';
+
+export type ProjectDraft = Omit<SavedProject, 'id' | 'lastModified'>;
+
+export interface ProjectRepository {
+  list(): Promise<SavedProject[]>;
+  get(id: string): Promise<SavedProject | null>;
+  create(draft: ProjectDraft): Promise<SavedProject>;
+  save(project: SavedProject): Promise<SavedProject>;
+  rename(id: string, name: string): Promise<SavedProject>;
+  duplicate(id: string, name?: string): Promise<SavedProject>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Shared project logic on top of a minimal record store
+ */
+abstract class BaseProjectRepository implements ProjectRepository {
+  protected abstract readAll(): Promise<SavedProject[]>;
+  protected abstract read(id: string): Promise<SavedProject | undefined>;
+  protected abstract write(project: SavedProject): Promise<void>;
+  protected abstract remove(id: string): Promise<void>;
+
+  /**
+   * List projects, most recently modified first
+   */
+  public async list(): Promise<SavedProject[]> {
+    const projects = await this.readAll();
+    return projects.sort((a, b) => new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime());
+  }
+
+  public async get(id: string): Promise<SavedProject | null> {
+    return (await this.read(id)) ?? null;
+  }
+
+  public async create(draft: ProjectDraft): Promise<SavedProject> {
+    const project: SavedProject = { ...draft, id: generateId(), lastModified: new Date() };
+    await this.write(project);
+    return project;
+  }
+
+  /**
+   * Store a project, stamping it with the current modification time
+   */
+  public async save(project: SavedProject): Promise<SavedProject> {
+    const saved = { ...project, lastModified: new Date() };
+    await this.write(saved);
+    return saved;
+  }
+
+  public async rename(id: string, name: string): Promise<SavedProject> {
+    const project = await this.require(id);
+    return this.save({ ...project, name });
+  }
+
+  public async duplicate(id: string, name?: string): Promise<SavedProject> {
+    const source = await this.require(id);
+    return this.create({
+      name: name ?? `${source.name} (copy)`,
+      originalText: source.originalText,
+      generatedPoml: source.generatedPoml,
+      detectedSections: source.detectedSections,
+      settings: source.settings,
+      versions: source.versions
+    });
+  }
+
+  public async delete(id: string): Promise<void> {
+    await this.remove(id);
+  }
+
+  private async require(id: string): Promise<SavedProject> {
+    const project = await this.read(id);
+    if (!project) {
+      throw new Error(`Project '${id}' not found`);
+    }
+    return project;
+  }
+}
+
+export class InMemoryProjectRepository extends BaseProjectRepository {
+  private projects = new Map<string, SavedProject>();
+
+  protected async readAll(): Promise<SavedProject[]> {
+    return Array.from(this.projects.values()).map(project => structuredClone(project));
+  }
+
+  protected async read(id: string): Promise<SavedProject | undefined> {
+    const project = this.projects.get(id);
+    return project && structuredClone(project);
+  }
+
+  protected async write(project: SavedProject): Promise<void> {
+    this.projects.set(project.id, structuredClone(project));
+  }
+
+  protected async remove(id: string): Promise<void> {
+    this.projects.delete(id);
+  }
+}
+
+export class IndexedDbProjectRepository extends BaseProjectRepository {
+  private dbName: string;
+  private storeName = 'projects';
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = 'poml-studio') {
+    super();
+    this.dbName = dbName;
+  }
+
+  protected async readAll(): Promise<SavedProject[]> {
+    return this.request<SavedProject[]>('readonly', store => store.getAll());
+  }
+
+  protected async read(id: string): Promise<SavedProject | undefined> {
+    return this.request<SavedProject | undefined>('readonly', store => store.get(id));
+  }
+
+  protected async write(project: SavedProject): Promise<void> {
+    await this.request('readwrite', store => store.put(project));
+  }
+
+  protected async remove(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = run(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * Pick the best available storage for the current environment
+ */
+export function createProjectRepository(): ProjectRepository {
+  return typeof indexedDB !== 'undefined'
+    ? new IndexedDbProjectRepository()
+    : new InMemoryProjectRepository();
+}
+
+let activeRepository: ProjectRepository = createProjectRepository();
+
+export function getProjectRepository(): ProjectRepository {
+  return activeRepository;
+}
+
+/**
+ * Swap the storage backend, e.g. for an InMemoryProjectRepository in tests
+ */
+export function setProjectRepository(repository: ProjectRepository): void {
+  activeRepository = repository;
+}
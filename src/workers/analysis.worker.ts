@@ -0,0 +1,53 @@
+/**
+ * Analysis Worker - Runs the text analyzer and template engine off the main thread
+ * Runs are cancelled through an AbortController per run id
+ */
+
+import { TextAnalyzer } from '../parser/textAnalyzer';
+import { TemplateEngine } from '../generator/templateEngine';
+import type { WorkerRequest, WorkerResponse } from './protocol';
+
+const analyzer = new TextAnalyzer();
+const engine = new TemplateEngine();
+const runs = new Map<number, AbortController>();
+
+const post = (response: WorkerResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.kind === 'configure') {
+    analyzer.configure(request.config);
+    return;
+  }
+  if (request.kind === 'cancel') {
+    runs.get(request.id)?.abort();
+    return;
+  }
+
+  const { id } = request;
+  const controller = new AbortController();
+  runs.set(id, controller);
+
+  try {
+    if (request.kind === 'analyze') {
+      const result = await analyzer.analyzeText(request.text, {
+        signal: controller.signal,
+        onProgress: progress => post({ kind: 'progress', id, progress })
+      });
+      post({ kind: 'result', id, value: { result, stats: analyzer.getAnalysisStats() } });
+    } else {
+      // Generation is short, so it runs to completion; the client drops the result of a cancelled run
+      post({ kind: 'result', id, value: await engine.generatePoml(request.sections, request.options) });
+    }
+  } catch (error) {
+    post({
+      kind: 'error',
+      id,
+      message: error instanceof Error ? error.message : 'Unknown worker error',
+      aborted: controller.signal.aborted
+    });
+  } finally {
+    runs.delete(id);
+  }
+};
@@ -0,0 +1,173 @@
+/**
+ * Analysis Client - Async API over the analysis worker for analyzing text and generating POML
+ * Runs accept an AbortSignal and a progress callback; where workers are unavailable (e.g. in Node) runs happen in-process
+ */
+
+import type { AnalysisRunOptions, DetectedSection, ParsingConfig } from '../types';
+import { TextAnalyzer } from '../parser/textAnalyzer';
+import { TemplateEngine, type GenerationOptions, type GenerationResult } from '../generator/templateEngine';
+import type { AnalysisRun, WorkerRequest, WorkerResponse } from './protocol';
+
+interface PendingRun {
+  resolve: (value: AnalysisRun | GenerationResult) => void;
+  reject: (reason: unknown) => void;
+  onProgress?: (progress: number) => void;
+}
+
+type RunRequest =
+  | { kind: 'analyze'; text: string }
+  | { kind: 'generate'; sections: DetectedSection[]; options: GenerationOptions };
+
+export class AnalysisClient {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private pending = new Map<number, PendingRun>();
+  private nextId = 1;
+  private config: Partial<ParsingConfig> = {};
+
+  // In-process fallback, created on first use
+  private analyzer: TextAnalyzer | null = null;
+  private engine: TemplateEngine | null = null;
+
+  /**
+   * Parsing config for all later analyses
+   */
+  public configure(config: Partial<ParsingConfig>): void {
+    this.config = config;
+    this.analyzer?.configure(config);
+    this.worker?.postMessage({ kind: 'configure', config } satisfies WorkerRequest);
+  }
+
+  /**
+   * Analyze text; rejects with the signal's reason when aborted
+   */
+  public async analyze(text: string, options: AnalysisRunOptions = {}): Promise<AnalysisRun> {
+    return this.run({ kind: 'analyze', text }, options) as Promise<AnalysisRun>;
+  }
+
+  /**
+   * Generate POML from sections; rejects with the signal's reason when aborted
+   */
+  public async generate(
+    sections: DetectedSection[],
+    generationOptions: GenerationOptions = {},
+    options: AnalysisRunOptions = {}
+  ): Promise<GenerationResult> {
+    return this.run({ kind: 'generate', sections, options: generationOptions }, options) as Promise<GenerationResult>;
+  }
+
+  /**
+   * Stop the worker, rejecting every pending run
+   */
+  public terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectAll(new Error('Analysis worker terminated'));
+  }
+
+  private run(request: RunRequest, { signal, onProgress }: AnalysisRunOptions): Promise<AnalysisRun | GenerationResult> {
+    signal?.throwIfAborted();
+
+    const worker = this.getWorker();
+    if (!worker) {
+      return this.runInProcess(request, { signal, onProgress });
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(id);
+        worker.postMessage({ kind: 'cancel', id } satisfies WorkerRequest);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: value => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        reject: reason => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(reason);
+        },
+        onProgress
+      });
+      worker.postMessage({ ...request, id } satisfies WorkerRequest);
+    });
+  }
+
+  private async runInProcess(
+    request: RunRequest,
+    options: AnalysisRunOptions
+  ): Promise<AnalysisRun | GenerationResult> {
+    if (request.kind === 'generate') {
+      this.engine ??= new TemplateEngine();
+      const result = await this.engine.generatePoml(request.sections, request.options);
+      options.signal?.throwIfAborted();
+      return result;
+    }
+
+    this.analyzer ??= new TextAnalyzer(this.config);
+    const result = await this.analyzer.analyzeText(request.text, options);
+    return { result, stats: this.analyzer.getAnalysisStats() };
+  }
+
+  /**
+   * The worker, started on first use; null where workers are unavailable or failed to start
+   */
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+
+    if (typeof Worker === 'undefined') {
+      this.workerFailed = true;
+      return null;
+    }
+
+    try {
+      const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleResponse(event.data);
+      worker.onerror = event => {
+        // A crashed worker is replaced on the next run
+        this.worker = null;
+        worker.terminate();
+        this.rejectAll(new Error(event.message || 'Analysis worker failed'));
+      };
+      worker.postMessage({ kind: 'configure', config: this.config } satisfies WorkerRequest);
+      this.worker = worker;
+    } catch (error) {
+      console.warn('Analysis worker unavailable, analyzing on the main thread:', error);
+      this.workerFailed = true;
+    }
+
+    return this.worker;
+  }
+
+  private handleResponse(response: WorkerResponse): void {
+    const run = this.pending.get(response.id);
+    if (!run) return; // cancelled
+
+    switch (response.kind) {
+      case 'progress':
+        run.onProgress?.(response.progress);
+        break;
+      case 'result':
+        this.pending.delete(response.id);
+        run.resolve(response.value);
+        break;
+      case 'error':
+        this.pending.delete(response.id);
+        run.reject(response.aborted ? new DOMException(response.message, 'AbortError') : new Error(response.message));
+        break;
+    }
+  }
+
+  private rejectAll(reason: Error): void {
+    const runs = [...this.pending.values()];
+    this.pending.clear();
+    runs.forEach(run => run.reject(reason));
+  }
+}
+
+// Create singleton instance
+export const analysisClient = new AnalysisClient();
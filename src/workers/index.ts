@@ -0,0 +1,3 @@
+// Analysis worker exports
+export * from './analysisClient';
+export * from './protocol';
@@ -0,0 +1,26 @@
+/**
+ * Analysis Worker Protocol - Messages exchanged between the app and the analysis worker
+ * Every run carries an id that its progress, result and cancellation refer to
+ */
+
+import type { AnalysisResult, DetectedSection, ParsingConfig } from '../types';
+import type { GenerationOptions, GenerationResult } from '../generator/templateEngine';
+import type { TextAnalyzer } from '../parser/textAnalyzer';
+
+export type AnalysisStats = ReturnType<TextAnalyzer['getAnalysisStats']>;
+
+export interface AnalysisRun {
+  result: AnalysisResult;
+  stats: AnalysisStats; // statistics of the analyzer that ran, after the run
+}
+
+export type WorkerRequest =
+  | { kind: 'configure'; config: Partial<ParsingConfig> }
+  | { kind: 'analyze'; id: number; text: string }
+  | { kind: 'generate'; id: number; sections: DetectedSection[]; options: GenerationOptions }
+  | { kind: 'cancel'; id: number };
+
+export type WorkerResponse =
+  | { kind: 'progress'; id: number; progress: number }
+  | { kind: 'result'; id: number; value: AnalysisRun | GenerationResult }
+  | { kind: 'error'; id: number; message: string; aborted: boolean };